@@ -0,0 +1,310 @@
+import { mkdir, readFile, readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  decode,
+  decodeAudioFile,
+  decodeWav,
+  encode,
+  encodeAudioFile,
+  isLossy,
+  needsKey,
+  OUTPUT_FORMATS,
+  outputExtension,
+  outputFormat,
+  parseSpec,
+  readEmbeddedCode,
+  sampleGrid,
+  serializeSpec,
+  storedPcm,
+  verifyRoundTrip,
+  withSampleGrid
+} from '../src/engine';
+import type { OutputFormat, OutputFormatName } from '../src/engine';
+
+type Command = 'encode' | 'decode';
+
+interface InputFile {
+  file: string;
+  relative: string; // path under the output directory
+}
+
+const EXIT_PROCESSING_ERROR = 1;
+const EXIT_USAGE_ERROR = 2;
+
+const USAGE = `Usage: audio-encode <encode|decode> --code <code> [--key <key>] <input...> <output>
+
+  <input>      WAV or AIFF file, directory (searched recursively for .wav/.aif/.aiff) or glob
+  <output>     output file for a single input, otherwise a directory
+  --code       encoding code; optional for decode when the input has one embedded
+  --key        passphrase for codes with keyed stages (e.g. shbb0.5f or s4b0.5-ksa)
+  --format     ${Object.keys(OUTPUT_FORMATS).join(', ')} (default wav16)
+  --dither     add TPDF dither when rounding to an integer format
+  --no-embed   don't embed the code in encoded files
+  --verify     decode each encoded file again and fail unless it matches the source
+
+Codes are the ones shown in the web app, e.g. sb5b0.2t, oebb1f or s4b0.5-oeb0.05-r.`;
+
+interface Arguments {
+  command: Command;
+  code?: string;
+  key?: string;
+  embed: boolean;
+  verify: boolean;
+  format: OutputFormat;
+  inputs: string[];
+  output: string;
+}
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[]): Arguments | null => {
+  const positional: string[] = [];
+  let code: string | undefined;
+  let key: string | undefined;
+  let embed = true;
+  let verify = false;
+  let formatName = 'wav16';
+  let dither = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      return null;
+    } else if (arg === '--code' || arg === '-c') {
+      code = argv[++i];
+      if (code === undefined) throw new UsageError(`${arg} needs a value`);
+    } else if (arg.startsWith('--code=')) {
+      code = arg.slice('--code='.length);
+    } else if (arg === '--key' || arg === '-k') {
+      key = argv[++i];
+      if (key === undefined) throw new UsageError(`${arg} needs a value`);
+    } else if (arg.startsWith('--key=')) {
+      key = arg.slice('--key='.length);
+    } else if (arg === '--format' || arg === '-f') {
+      formatName = argv[++i];
+      if (formatName === undefined) throw new UsageError(`${arg} needs a value`);
+    } else if (arg.startsWith('--format=')) {
+      formatName = arg.slice('--format='.length);
+    } else if (arg === '--dither') {
+      dither = true;
+    } else if (arg === '--no-embed') {
+      embed = false;
+    } else if (arg === '--verify') {
+      verify = true;
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command, ...paths] = positional;
+  if (command !== 'encode' && command !== 'decode') {
+    throw new UsageError(command ? `Unknown command ${command}` : 'Missing command');
+  }
+  if (code === undefined && command === 'encode') throw new UsageError('Missing --code');
+  if (paths.length < 2) throw new UsageError('Need at least one input and an output');
+  if (!(formatName in OUTPUT_FORMATS)) throw new UsageError(`Unknown format ${formatName}`);
+
+  return {
+    command,
+    code,
+    key,
+    embed,
+    verify,
+    format: outputFormat(formatName as OutputFormatName, dither),
+    inputs: paths.slice(0, -1),
+    output: paths[paths.length - 1]
+  };
+};
+
+const hasGlob = (pattern: string) => /[*?[]/.test(pattern);
+
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const close = pattern.indexOf(']', i);
+      if (close < 0) {
+        source += '\\[';
+      } else {
+        source += pattern.slice(i, close + 1);
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const walk = async (directory: string): Promise<string[]> => {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(full)));
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files.sort();
+};
+
+const INPUT_EXTENSIONS = ['.wav', '.aif', '.aiff', '.aifc'];
+
+const isAudioInput = (file: string) => INPUT_EXTENSIONS.includes(path.extname(file).toLowerCase());
+
+const expandInput = async (input: string): Promise<InputFile[]> => {
+  if (hasGlob(input)) {
+    const pattern = input.split(path.sep).join('/');
+    const segments = pattern.split('/');
+    const firstGlob = segments.findIndex(hasGlob);
+    const base = segments.slice(0, firstGlob).join('/') || '.';
+    const matcher = globToRegExp(segments.slice(firstGlob).join('/'));
+
+    const files = await walk(base).catch(() => []);
+    return files
+      .map(file => ({ file, relative: path.relative(base, file) }))
+      .filter(({ relative }) => matcher.test(relative.split(path.sep).join('/')));
+  }
+
+  const info = await stat(input);
+  if (info.isDirectory()) {
+    const files = await walk(input);
+    return files.filter(isAudioInput).map(file => ({ file, relative: path.relative(input, file) }));
+  }
+  return [{ file: input, relative: path.basename(input) }];
+};
+
+const processFile = async (args: Arguments, input: string, output: string): Promise<string | null> => {
+  const source = await readFile(input);
+  const buffer = source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength);
+
+  const code = args.code ?? readEmbeddedCode(buffer);
+  if (!code) throw new Error('no --code given and the file has no embedded code');
+  const parsed = parseSpec(code);
+  if (!parsed.ok) throw new Error(`invalid embedded code "${code}": ${parsed.error.message}`);
+  if (needsKey(parsed.spec) && !args.key) throw new Error(`code "${code}" needs --key`);
+
+  // Polarity, mid/side and keystream encode on the integer grid of the output
+  // format, so the code that decodes the file can differ from the one given
+  const spec = args.command === 'encode' ? withSampleGrid(parsed.spec, sampleGrid(args.format)) : parsed.spec;
+  const usedCode = serializeSpec(spec);
+  const codeNote = usedCode !== serializeSpec(parsed.spec) ? `encoded as ${usedCode}` : null;
+
+  const pcm = decodeAudioFile(buffer);
+  const options = { key: args.key };
+  const result = args.command === 'encode' ? encode(pcm, spec, options) : decode(pcm, spec, options);
+  // Embedded codes are always written out in full, with their version
+  const metadata = args.command === 'encode' && args.embed ? { code: usedCode } : {};
+
+  const bytes = encodeAudioFile(result, metadata, args.format);
+
+  // Lossy stages can't be bit-exact, so they always report how close decoding gets.
+  // Checked before writing, so a failed round trip leaves no output behind. FLAC
+  // is lossless, so it's checked against the samples it stores.
+  const written = () => (args.format.container === 'wav' ? decodeWav(bytes) : storedPcm(result, args.format));
+  const verification = args.command === 'encode' && (args.verify || isLossy(spec))
+    ? verifyRoundTrip(pcm, written(), usedCode, options, args.format)
+    : null;
+  const comparison = verification?.comparison;
+  const note = comparison && !comparison.bitExact
+    ? `reconstruction SNR ${comparison.snrDb.toFixed(1)} dB, max error ${comparison.maxError.toFixed(4)}`
+    : null;
+  if (args.verify && verification && !verification.passed) {
+    throw new Error(`round trip failed${note ? ` (${note})` : ''}`);
+  }
+
+  await mkdir(path.dirname(output), { recursive: true });
+  await writeFile(output, new Uint8Array(bytes));
+
+  const status = verification?.passed && comparison?.bitExact ? 'verified bit-exact' : note;
+  return [codeNote, status].filter(Boolean).join('; ') || null;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  let args: Arguments | null;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`audio-encode: ${error.message}\n\n${USAGE}`);
+    return EXIT_USAGE_ERROR;
+  }
+  if (!args) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (args.code !== undefined) {
+    const parsed = parseSpec(args.code);
+    if (!parsed.ok) {
+      console.error(`audio-encode: invalid encoding code "${args.code}": ${parsed.error.message}`);
+      return EXIT_USAGE_ERROR;
+    }
+    if (needsKey(parsed.spec) && !args.key) {
+      console.error(`audio-encode: code "${args.code}" needs --key`);
+      return EXIT_USAGE_ERROR;
+    }
+  }
+
+  let failed = false;
+  const files: InputFile[] = [];
+  for (const input of args.inputs) {
+    try {
+      const expanded = await expandInput(input);
+      if (expanded.length === 0) {
+        console.error(`audio-encode: no files match ${input}`);
+        failed = true;
+      }
+      files.push(...expanded);
+    } catch (error) {
+      console.error(`audio-encode: cannot read ${input}: ${(error as Error).message}`);
+      failed = true;
+    }
+  }
+
+  // A single plain file maps to an output file, anything else to a directory
+  const outputInfo = await stat(args.output).catch(() => null);
+  const toDirectory = files.length > 1
+    || args.inputs.length > 1
+    || args.inputs.some(hasGlob)
+    || args.output.endsWith('/')
+    || Boolean(outputInfo?.isDirectory());
+
+  // Files in an output directory take the extension of the format they're written in
+  const extension = outputExtension(args.format);
+  const outputName = (relative: string) =>
+    path.extname(relative).toLowerCase() === extension
+      ? relative
+      : relative.slice(0, relative.length - path.extname(relative).length) + extension;
+
+  for (const { file, relative } of files) {
+    const output = toDirectory ? path.join(args.output, outputName(relative)) : args.output;
+    try {
+      const note = await processFile(args, file, output);
+      console.log(`${file} -> ${output}${note ? ` (${note})` : ''}`);
+    } catch (error) {
+      console.error(`audio-encode: ${file}: ${(error as Error).message}`);
+      failed = true;
+    }
+  }
+
+  return failed ? EXIT_PROCESSING_ERROR : 0;
+};
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
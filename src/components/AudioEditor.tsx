@@ -1,236 +1,196 @@
 import { useState, useEffect, useRef } from 'react';
 
+// Decoded tracks are held whole in memory, as 32-bit float at the device rate
+const MAX_TRACK_BYTES = 256 * 1024 * 1024;
+
+export interface PlayerTrack {
+  label: string;
+  url: string; // blank when there's nothing to play yet
+}
+
 interface AudioEditorProps {
-  file: File;
+  tracks: PlayerTrack[];
 }
 
-type EncodingType = 'none' | 'split' | 'oddEven';
+type TrackState = AudioBuffer | 'loading' | 'tooLarge' | 'failed' | null;
 
-interface AudioSegment {
-  start: number;
-  end: number;
-}
+const TRACK_LETTERS = 'ABCDEFGH';
 
-export const AudioEditor: React.FC<AudioEditorProps> = ({ file }) => {
+// Plays the original, encoded and decoded audio from one shared clock, so
+// switching tracks keeps the playhead where it was. Every track is decoded up
+// front, which is what makes the switch instant.
+export const AudioEditor = ({ tracks }: AudioEditorProps) => {
+  const [trackStates, setTrackStates] = useState<TrackState[]>([]);
+  const [activeTrack, setActiveTrack] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [duration, setDuration] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
   const [volume, setVolume] = useState(1);
-  const [audioUrl, setAudioUrl] = useState<string>('');
-  const [isAudioContextInitialized, setIsAudioContextInitialized] = useState(false);
-  const [encodingType, setEncodingType] = useState<EncodingType>('none');
-  const [interval, setInterval] = useState<number>(1); // interval in seconds
-  const [isReversed, setIsReversed] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [encodedAudioUrl, setEncodedAudioUrl] = useState<string>('');
-  
-  const audioRef = useRef<HTMLAudioElement>(null);
+
   const audioContextRef = useRef<AudioContext | null>(null);
   const gainNodeRef = useRef<GainNode | null>(null);
-  const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
+  const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
+  const buffersRef = useRef(new Map<string, AudioBuffer>());
+  // Where playback last started or paused, in track seconds and context time
+  const offsetRef = useRef(0);
+  const startedAtRef = useRef(0);
 
+  const urls = tracks.map(track => track.url).join('\n');
+
+  // Created up front since tracks are decoded as soon as they arrive; it only
+  // starts making sound once Play resumes it
   useEffect(() => {
-    const url = URL.createObjectURL(file);
-    setAudioUrl(url);
-    setEncodedAudioUrl('');
-    
+    const context = new AudioContext();
+    audioContextRef.current = context;
     return () => {
-      URL.revokeObjectURL(url);
-      if (encodedAudioUrl) {
-        URL.revokeObjectURL(encodedAudioUrl);
-      }
-      if (audioContextRef.current) {
-        audioContextRef.current.close();
-      }
+      sourceNodeRef.current?.stop();
+      sourceNodeRef.current = null;
+      gainNodeRef.current = null;
+      context.close();
     };
-  }, [file]);
+  }, []);
 
-  const initializeAudioContext = async () => {
-    if (audioRef.current && !audioContextRef.current) {
+  // Decodes each track once per URL; tracks that are already decoded are kept
+  useEffect(() => {
+    let cancelled = false;
+    const trackUrls = urls.split('\n');
+    const buffers = buffersRef.current;
+    for (const url of buffers.keys()) {
+      if (!trackUrls.includes(url)) buffers.delete(url);
+    }
+
+    // A new file for the playing track drops its buffer; stop rather than keep
+    // playing audio that's been replaced
+    const source = sourceNodeRef.current;
+    if (source && ![...buffers.values()].includes(source.buffer!)) {
+      offsetRef.current = audioContextRef.current!.currentTime - startedAtRef.current;
+      sourceNodeRef.current = null;
+      source.stop();
+      source.disconnect();
+      setCurrentTime(offsetRef.current);
+      setIsPlaying(false);
+    }
+
+    const setTrackState = (index: number, state: TrackState) => {
+      if (!cancelled) setTrackStates(current => trackUrls.map((_, i) => (i === index ? state : current[i] ?? null)));
+    };
+
+    setTrackStates(trackUrls.map(url => (url ? buffers.get(url) ?? 'loading' : null)));
+    trackUrls.forEach(async (url, index) => {
+      if (!url || buffers.has(url)) return;
       try {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-        await audioContextRef.current.resume();
-        
-        gainNodeRef.current = audioContextRef.current.createGain();
-        sourceNodeRef.current = audioContextRef.current.createMediaElementSource(audioRef.current);
-        sourceNodeRef.current.connect(gainNodeRef.current);
-        gainNodeRef.current.connect(audioContextRef.current.destination);
-        gainNodeRef.current.gain.value = volume;
-        
-        setIsAudioContextInitialized(true);
+        const blob = await (await fetch(url)).blob();
+        if (cancelled) return;
+        if (blob.size > MAX_TRACK_BYTES) {
+          setTrackState(index, 'tooLarge');
+          return;
+        }
+        const buffer = await audioContextRef.current!.decodeAudioData(await blob.arrayBuffer());
+        buffers.set(url, buffer);
+        setTrackState(index, buffer);
       } catch (error) {
-        console.error('Error initializing audio context:', error);
+        console.error('Error loading track:', error);
+        setTrackState(index, 'failed');
       }
-    }
-  };
+    });
 
-  const createAudioSegments = (totalDuration: number): AudioSegment[] => {
-    const segments: AudioSegment[] = [];
-    const segmentCount = Math.floor(totalDuration / interval);
-    
-    for (let i = 0; i < segmentCount; i++) {
-      segments.push({
-        start: i * interval,
-        end: Math.min((i + 1) * interval, totalDuration)
-      });
-    }
+    return () => {
+      cancelled = true;
+    };
+  }, [urls]);
 
-    // Add remaining segment if there's a partial interval left
-    if (segmentCount * interval < totalDuration) {
-      segments.push({
-        start: segmentCount * interval,
-        end: totalDuration
-      });
-    }
+  const activeBuffer = trackStates[activeTrack] instanceof AudioBuffer ? trackStates[activeTrack] as AudioBuffer : null;
+  const duration = activeBuffer?.duration ?? 0;
 
-    return segments;
-  };
+  const playhead = () =>
+    sourceNodeRef.current ? audioContextRef.current!.currentTime - startedAtRef.current : offsetRef.current;
 
-  const reorderSegments = (segments: AudioSegment[]): AudioSegment[] => {
-    if (encodingType === 'split') {
-      const firstHalf = segments.filter((_, i) => i % 2 === 0);
-      const secondHalf = segments.filter((_, i) => i % 2 === 1);
-      return [...firstHalf, ...secondHalf];
-    } else if (encodingType === 'oddEven') {
-      const odd = segments.filter((_, i) => i % 2 === 0);
-      const even = segments.filter((_, i) => i % 2 === 1);
-      return [...odd, ...even];
-    }
-    return segments;
+  const stopSource = () => {
+    const source = sourceNodeRef.current;
+    sourceNodeRef.current = null;
+    source?.stop();
+    source?.disconnect();
   };
 
-  const encodeAudio = async () => {
-    if (!audioContextRef.current) {
-      await initializeAudioContext();
+  const startSource = async (buffer: AudioBuffer, offset: number) => {
+    stopSource();
+    const context = audioContextRef.current!;
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+    if (!gainNodeRef.current) {
+      gainNodeRef.current = context.createGain();
+      gainNodeRef.current.connect(context.destination);
+      gainNodeRef.current.gain.value = volume;
     }
 
-    setIsProcessing(true);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gainNodeRef.current!);
+    // Stopping for a switch or seek also fires this, but by then the source isn't current
+    source.onended = () => {
+      if (sourceNodeRef.current !== source) return;
+      sourceNodeRef.current = null;
+      offsetRef.current = 0;
+      setCurrentTime(0);
+      setIsPlaying(false);
+    };
 
-    try {
-      const response = await fetch(audioUrl);
-      const arrayBuffer = await response.arrayBuffer();
-      const audioBuffer = await audioContextRef.current!.decodeAudioData(arrayBuffer);
-
-      const segments = createAudioSegments(audioBuffer.duration);
-      const reorderedSegments = reorderSegments(segments);
-      
-      if (isReversed) {
-        reorderedSegments.reverse();
-      }
+    const start = Math.min(offset, buffer.duration);
+    source.start(0, start);
+    sourceNodeRef.current = source;
+    startedAtRef.current = context.currentTime - start;
+  };
 
-      // Create a new buffer for the encoded audio
-      const encodedBuffer = audioContextRef.current!.createBuffer(
-        audioBuffer.numberOfChannels,
-        audioBuffer.length,
-        audioBuffer.sampleRate
-      );
-
-      // Fill the new buffer with reordered segments
-      for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-        const inputData = audioBuffer.getChannelData(channel);
-        const outputData = encodedBuffer.getChannelData(channel);
-        
-        let writePosition = 0;
-        for (const segment of reorderedSegments) {
-          const startSample = Math.floor(segment.start * audioBuffer.sampleRate);
-          const endSample = Math.floor(segment.end * audioBuffer.sampleRate);
-          const segmentLength = endSample - startSample;
-          
-          for (let i = 0; i < segmentLength; i++) {
-            outputData[writePosition + i] = inputData[startSample + i];
-          }
-          writePosition += segmentLength;
-        }
-      }
+  // Follow the playhead while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    const context = audioContextRef.current!;
+    let frame = requestAnimationFrame(function update() {
+      setCurrentTime(context.currentTime - startedAtRef.current);
+      frame = requestAnimationFrame(update);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
 
-      // Convert the buffer to a WAV file
-      const wavBlob = await audioBufferToWav(encodedBuffer);
-      const newUrl = URL.createObjectURL(wavBlob);
-      
-      if (encodedAudioUrl) {
-        URL.revokeObjectURL(encodedAudioUrl);
-      }
-      
-      setEncodedAudioUrl(newUrl);
-      setIsProcessing(false);
+  const handlePlayPause = async () => {
+    if (!activeBuffer) return;
+    if (isPlaying) {
+      offsetRef.current = playhead();
+      stopSource();
+      setCurrentTime(offsetRef.current);
+      setIsPlaying(false);
+      return;
+    }
 
+    try {
+      await startSource(activeBuffer, offsetRef.current);
+      setIsPlaying(true);
     } catch (error) {
-      console.error('Error encoding audio:', error);
-      setIsProcessing(false);
+      console.error('Error playing audio:', error);
     }
   };
 
-  // Convert AudioBuffer to WAV format
-  const audioBufferToWav = (buffer: AudioBuffer): Promise<Blob> => {
-    const numberOfChannels = buffer.numberOfChannels;
-    const sampleRate = buffer.sampleRate;
-    const format = 1; // PCM
-    const bitDepth = 16;
-    
-    const bytesPerSample = bitDepth / 8;
-    const blockAlign = numberOfChannels * bytesPerSample;
-    
-    const dataLength = buffer.length * blockAlign;
-    const bufferLength = 44 + dataLength;
-    
-    const arrayBuffer = new ArrayBuffer(bufferLength);
-    const view = new DataView(arrayBuffer);
-    
-    // Write WAV header
-    const writeString = (offset: number, string: string) => {
-      for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-      }
-    };
-    
-    writeString(0, 'RIFF');
-    view.setUint32(4, 36 + dataLength, true);
-    writeString(8, 'WAVE');
-    writeString(12, 'fmt ');
-    view.setUint32(16, 16, true);
-    view.setUint16(20, format, true);
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * blockAlign, true);
-    view.setUint16(32, blockAlign, true);
-    view.setUint16(34, bitDepth, true);
-    writeString(36, 'data');
-    view.setUint32(40, dataLength, true);
-    
-    // Write audio data
-    const offset = 44;
-    const channelData = new Array(numberOfChannels).fill(0).map((_, i) => buffer.getChannelData(i));
-    
-    for (let i = 0; i < buffer.length; i++) {
-      for (let channel = 0; channel < numberOfChannels; channel++) {
-        const sample = Math.max(-1, Math.min(1, channelData[channel][i]));
-        const value = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-        view.setInt16(offset + (i * blockAlign) + (channel * bytesPerSample), value, true);
-      }
+  // Moves playback that's already running to another buffer or offset
+  const restartSource = async (buffer: AudioBuffer, offset: number) => {
+    try {
+      await startSource(buffer, offset);
+    } catch (error) {
+      console.error('Error playing audio:', error);
+      stopSource();
+      offsetRef.current = offset;
+      setIsPlaying(false);
     }
-    
-    return Promise.resolve(new Blob([arrayBuffer], { type: 'audio/wav' }));
   };
 
-  const handlePlayPause = async () => {
-    if (!isAudioContextInitialized) {
-      await initializeAudioContext();
-    }
-
-    if (audioRef.current) {
-      if (isPlaying) {
-        audioRef.current.pause();
-      } else {
-        try {
-          if (audioContextRef.current?.state === 'suspended') {
-            await audioContextRef.current.resume();
-          }
-          await audioRef.current.play();
-        } catch (error) {
-          console.error('Error playing audio:', error);
-        }
-      }
-      setIsPlaying(!isPlaying);
+  const switchTrack = async (index: number) => {
+    const state = trackStates[index];
+    if (!(state instanceof AudioBuffer)) return;
+    setActiveTrack(index);
+    if (isPlaying) {
+      await restartSource(state, playhead());
+    } else {
+      offsetRef.current = Math.min(offsetRef.current, state.duration);
+      setCurrentTime(offsetRef.current);
     }
   };
 
@@ -242,17 +202,12 @@ export const AudioEditor: React.FC<AudioEditorProps> = ({ file }) => {
     }
   };
 
-  const handleTimeUpdate = () => {
-    if (audioRef.current) {
-      setCurrentTime(audioRef.current.currentTime);
-    }
-  };
-
-  const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleSeek = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const time = parseFloat(e.target.value);
+    offsetRef.current = time;
     setCurrentTime(time);
-    if (audioRef.current) {
-      audioRef.current.currentTime = time;
+    if (isPlaying && activeBuffer) {
+      await restartSource(activeBuffer, time);
     }
   };
 
@@ -262,63 +217,39 @@ export const AudioEditor: React.FC<AudioEditorProps> = ({ file }) => {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
-  const handleDownload = () => {
-    if (encodedAudioUrl) {
-      const a = document.createElement('a');
-      a.href = encodedAudioUrl;
-      a.download = `encoded_${file.name.replace('.mp3', '')}.wav`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-    }
+  const trackNote = (state: TrackState) => {
+    if (state === 'loading') return ' (loading)';
+    if (state === 'tooLarge') return ' (too large)';
+    if (state === 'failed') return ' (can\'t play)';
+    return '';
   };
 
   return (
-    <div style={{ padding: '20px', border: '1px solid #ccc', borderRadius: '8px', marginTop: '20px' }}>
-      <h2>Audio Editor</h2>
-      <audio
-        ref={audioRef}
-        src={encodedAudioUrl || audioUrl}
-        onLoadedMetadata={() => {
-          if (audioRef.current) {
-            setDuration(audioRef.current.duration);
-          }
-        }}
-        onTimeUpdate={handleTimeUpdate}
-        onEnded={() => setIsPlaying(false)}
-      />
-      
+    <div className="panel" style={{ marginTop: '20px' }}>
+      <h2>Player</h2>
+
+      <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', flexWrap: 'wrap', marginBottom: '20px' }}>
+        {tracks.map((track, index) => (
+          <button
+            key={track.label}
+            onClick={() => switchTrack(index)}
+            disabled={!(trackStates[index] instanceof AudioBuffer)}
+            className={`button ${index === activeTrack ? 'primary' : trackStates[index] instanceof AudioBuffer ? '' : 'disabled'}`}
+          >
+            {TRACK_LETTERS[index]}: {track.label}
+            {trackNote(trackStates[index] ?? null)}
+          </button>
+        ))}
+      </div>
+
       <div style={{ marginBottom: '20px' }}>
-        <button 
+        <button
           onClick={handlePlayPause}
-          style={{
-            padding: '8px 16px',
-            backgroundColor: '#4a90e2',
-            color: 'white',
-            border: 'none',
-            borderRadius: '4px',
-            cursor: 'pointer',
-            marginRight: '10px'
-          }}
+          disabled={!activeBuffer}
+          className={`button ${activeBuffer ? 'primary' : 'disabled'}`}
         >
           {isPlaying ? 'Pause' : 'Play'}
         </button>
-
-        {encodedAudioUrl && (
-          <button
-            onClick={handleDownload}
-            style={{
-              padding: '8px 16px',
-              backgroundColor: '#4CAF50',
-              color: 'white',
-              border: 'none',
-              borderRadius: '4px',
-              cursor: 'pointer'
-            }}
-          >
-            Download Encoded Audio
-          </button>
-        )}
       </div>
 
       <div style={{ marginBottom: '20px' }}>
@@ -328,7 +259,8 @@ export const AudioEditor: React.FC<AudioEditorProps> = ({ file }) => {
             type="range"
             min="0"
             max={duration}
-            value={currentTime}
+            step="0.01"
+            value={Math.min(currentTime, duration)}
             onChange={handleSeek}
             style={{ flex: 1 }}
           />
@@ -336,7 +268,7 @@ export const AudioEditor: React.FC<AudioEditorProps> = ({ file }) => {
         </div>
       </div>
 
-      <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '20px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '10px' }}>
         <span>Volume:</span>
         <input
           type="range"
@@ -348,68 +280,6 @@ export const AudioEditor: React.FC<AudioEditorProps> = ({ file }) => {
           style={{ width: '200px' }}
         />
       </div>
-
-      <div style={{ 
-        padding: '20px',
-        backgroundColor: '#f5f5f5',
-        borderRadius: '8px',
-        marginTop: '20px'
-      }}>
-        <h3>Encoding Options</h3>
-        
-        <div style={{ marginBottom: '15px' }}>
-          <label style={{ marginRight: '10px' }}>Encoding Type:</label>
-          <select
-            value={encodingType}
-            onChange={(e) => setEncodingType(e.target.value as EncodingType)}
-            style={{ padding: '5px', borderRadius: '4px' }}
-          >
-            <option value="none">None</option>
-            <option value="split">Split (1,4,2,5,3,6)</option>
-            <option value="oddEven">Odd/Even (1,3,5,2,4,6)</option>
-          </select>
-        </div>
-
-        <div style={{ marginBottom: '15px' }}>
-          <label style={{ marginRight: '10px' }}>Interval (seconds):</label>
-          <input
-            type="number"
-            min="0.001"
-            max="10"
-            step="0.001"
-            value={interval}
-            onChange={(e) => setInterval(parseFloat(e.target.value))}
-            style={{ padding: '5px', borderRadius: '4px', width: '100px' }}
-          />
-        </div>
-
-        <div style={{ marginBottom: '15px' }}>
-          <label style={{ marginRight: '10px' }}>
-            <input
-              type="checkbox"
-              checked={isReversed}
-              onChange={(e) => setIsReversed(e.target.checked)}
-              style={{ marginRight: '5px' }}
-            />
-            Reverse Order
-          </label>
-        </div>
-
-        <button
-          onClick={encodeAudio}
-          disabled={isProcessing || encodingType === 'none'}
-          style={{
-            padding: '8px 16px',
-            backgroundColor: encodingType === 'none' ? '#ccc' : '#4a90e2',
-            color: 'white',
-            border: 'none',
-            borderRadius: '4px',
-            cursor: encodingType === 'none' ? 'not-allowed' : 'pointer'
-          }}
-        >
-          {isProcessing ? 'Processing...' : 'Encode Audio'}
-        </button>
-      </div>
     </div>
   );
-}; 
\ No newline at end of file
+};
@@ -1,38 +1,95 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { RefObject } from 'react';
+import { AudioEditor } from './AudioEditor';
+import { BatchQueue } from './BatchQueue';
 import { FileDropzone } from './FileDropzone';
-
-type EncodingType = 'none' | 'split' | 'oddEven';
-
-interface AudioSegment {
-  start: number;
-  end: number;
-  data: Float32Array[];
+import { JobProgress } from './JobProgress';
+import { LivePlayer } from './LivePlayer';
+import { OutputFormatSelect } from './OutputFormatSelect';
+import { RangeSelector } from './RangeSelector';
+import { SegmentVisualizer } from './SegmentVisualizer';
+import { StageEditor } from './StageEditor';
+import { VerificationBadge } from './VerificationBadge';
+import {
+  needsKey,
+  outputFileName,
+  outputFormat,
+  outputMimeType,
+  parseSpec,
+  sampleGrid,
+  serializeSpec,
+  UnsupportedAudioError,
+  validateSpec,
+  withSampleGrid
+} from '../engine';
+import type { CodeEstimate, EncodingSpec, OutputFormatName, RoundTripResult, Stage, TimeRange } from '../engine';
+import {
+  CancelledError,
+  checkAudioFile,
+  readCodecInput,
+  readFileCode,
+  readFileDuration,
+  startCodecJob,
+  startEstimateJob
+} from '../workers/codec';
+import type { CodecJob, CodecRequest, CodecVisual, WorkerJob } from '../workers/codec';
+import { canExportOpus, DEFAULT_OPUS_BITRATE, exportWebmOpus, OPUS_BITRATES } from '../workers/opus';
+import { openOutputSink } from '../workers/sink';
+
+interface ProgressState {
+  fraction: number;
+  startedAt: number;
 }
 
-const MAX_SEGMENT_SIZE = 1024 * 1024; // 1MB segments max
-
 // Audio Processing Component - Updated version
 export const AudioProcessor = () => {
+  const [files, setFiles] = useState<File[]>([]);
   const [file, setFile] = useState<File | null>(null);
+  const [fileUrl, setFileUrl] = useState<string>('');
+  const [inputError, setInputError] = useState<string | null>(null);
   const [encodedAudioUrl, setEncodedAudioUrl] = useState<string>('');
   const [decodedAudioUrl, setDecodedAudioUrl] = useState<string>('');
+  const [encodedFileName, setEncodedFileName] = useState<string>('');
+  const [decodedFileName, setDecodedFileName] = useState<string>('');
+  const [encodeFormat, setEncodeFormat] = useState<{ name: OutputFormatName; dither: boolean }>({ name: 'wav16', dither: false });
+  const [decodeFormat, setDecodeFormat] = useState<{ name: OutputFormatName; dither: boolean }>({ name: 'wav16', dither: false });
   const [isProcessing, setIsProcessing] = useState(false);
-  const [encodingType, setEncodingType] = useState<EncodingType>('none');
-  const [interval, setInterval] = useState<number>(1);
-  const [isReversed, setIsReversed] = useState(false);
-  const [numberOfParts, setNumberOfParts] = useState<number>(2);
-  const [decodingType, setDecodingType] = useState<EncodingType>('none');
-  const [decodeNumberOfParts, setDecodeNumberOfParts] = useState<number>(2);
-  const [decodeInterval, setDecodeInterval] = useState<number>(1);
-  const [isDecodeReversed, setIsDecodeReversed] = useState(false);
+  const [stages, setStages] = useState<Stage[]>([]);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [useRanges, setUseRanges] = useState(false);
+  const [ranges, setRanges] = useState<TimeRange[]>([]);
+  const [encodeKey, setEncodeKey] = useState<string>('');
+  const [embedCode, setEmbedCode] = useState(true);
+  const [verifyEncode, setVerifyEncode] = useState(true);
+  const [verification, setVerification] = useState<RoundTripResult | null>(null);
+  const [decodeKey, setDecodeKey] = useState<string>('');
   const [isDecoding, setIsDecoding] = useState(false);
   const [decodeInputCode, setDecodeInputCode] = useState<string>('');
-  const [isValidCode, setIsValidCode] = useState<boolean>(true);
+  const [embeddedCode, setEmbeddedCode] = useState<string | null>(null);
+  const [encodeProgress, setEncodeProgress] = useState<ProgressState | null>(null);
+  const [decodeProgress, setDecodeProgress] = useState<ProgressState | null>(null);
+  const [encodedSavedToDisk, setEncodedSavedToDisk] = useState(false);
+  const [decodedSavedToDisk, setDecodedSavedToDisk] = useState(false);
+  const [estimates, setEstimates] = useState<CodeEstimate[] | null>(null);
+  const [estimateProgress, setEstimateProgress] = useState<ProgressState | null>(null);
+  const [encodeVisual, setEncodeVisual] = useState<CodecVisual | null>(null);
+  const [opusBitrate, setOpusBitrate] = useState(DEFAULT_OPUS_BITRATE);
+  const [opusProgress, setOpusProgress] = useState<ProgressState | null>(null);
+  const [opusAudioUrl, setOpusAudioUrl] = useState<string>('');
+  const [decodeVisual, setDecodeVisual] = useState<CodecVisual | null>(null);
 
   const audioContextRef = useRef<AudioContext | null>(null);
+  const encodeJobRef = useRef<CodecJob | null>(null);
+  const decodeJobRef = useRef<CodecJob | null>(null);
+  const estimateJobRef = useRef<WorkerJob<CodeEstimate[]> | null>(null);
+  const opusAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     return () => {
+      encodeJobRef.current?.cancel();
+      decodeJobRef.current?.cancel();
+      estimateJobRef.current?.cancel();
+      opusAbortRef.current?.abort();
       if (encodedAudioUrl) URL.revokeObjectURL(encodedAudioUrl);
       if (decodedAudioUrl) URL.revokeObjectURL(decodedAudioUrl);
       if (audioContextRef.current) audioContextRef.current.close();
@@ -47,260 +104,95 @@ export const AudioProcessor = () => {
     return audioContextRef.current;
   };
 
-  const createAudioSegments = async (audioBuffer: AudioBuffer, segmentDuration: number): Promise<AudioSegment[]> => {
-    const segments: AudioSegment[] = [];
-    const numberOfSegments = Math.ceil(audioBuffer.duration / segmentDuration);
-    const maxSamplesPerSegment = Math.min(
-      Math.floor(segmentDuration * audioBuffer.sampleRate),
-      MAX_SEGMENT_SIZE / audioBuffer.numberOfChannels
-    );
-    
-    for (let i = 0; i < numberOfSegments; i++) {
-      const start = i * segmentDuration;
-      const end = Math.min((i + 1) * segmentDuration, audioBuffer.duration);
-      const segmentLength = Math.min(
-        Math.floor((end - start) * audioBuffer.sampleRate),
-        maxSamplesPerSegment
-      );
-      
-      const channelData: Float32Array[] = [];
-      for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-        const data = new Float32Array(segmentLength);
-        audioBuffer.copyFromChannel(data, channel, Math.floor(start * audioBuffer.sampleRate));
-        channelData.push(data);
-      }
-      
-      segments.push({
-        start,
-        end,
-        data: channelData
-      });
-
-      // Force garbage collection of unused data
-      if (i % 100 === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0));
-      }
-    }
-    
-    return segments;
-  };
-
-  const processInBatches = async (
-    segments: AudioSegment[],
-    audioContext: AudioContext,
-    numberOfChannels: number,
-    sampleRate: number,
-    batchSize: number = 50
-  ): Promise<AudioBuffer> => {
-    const totalLength = segments.reduce((sum, segment) => sum + segment.data[0].length, 0);
-    const resultBuffer = audioContext.createBuffer(numberOfChannels, totalLength, sampleRate);
-    
-    let writePosition = 0;
-    for (let i = 0; i < segments.length; i += batchSize) {
-      const batch = segments.slice(i, i + batchSize);
-      
-      for (const segment of batch) {
-        for (let channel = 0; channel < numberOfChannels; channel++) {
-          const channelData = resultBuffer.getChannelData(channel);
-          channelData.set(segment.data[channel], writePosition);
-        }
-        writePosition += segment.data[0].length;
-        
-        // Clear segment data after use
-        segment.data = [];
-      }
-      
-      // Allow other operations to process
-      await new Promise(resolve => setTimeout(resolve, 0));
-    }
-    
-    return resultBuffer;
-  };
+  // Runs a job on the selected file. Returns the written file, or null when it
+  // was streamed straight to a file the user picked.
+  const runJob = async (
+    request: Omit<CodecRequest, 'input'>,
+    jobRef: RefObject<CodecJob | null>,
+    setProgress: (progress: ProgressState) => void
+  ) => {
+    const startedAt = Date.now();
+    setProgress({ fraction: 0, startedAt });
+
+    const name = outputFileName(file!.name, `${request.direction}d`, request.format);
+    const input = await readCodecInput(file!, async bytes => (await initAudioContext()).decodeAudioData(bytes));
+    const sink = input instanceof Blob ? await openOutputSink(name, request.format) : null;
+    const job = startCodecJob({ ...request, input }, fraction => setProgress({ fraction, startedAt }), sink?.write);
+    jobRef.current = job;
 
-  const reverseAudioBuffer = (buffer: AudioBuffer): AudioBuffer => {
-    const reversedBuffer = audioContextRef.current!.createBuffer(
-      buffer.numberOfChannels,
-      buffer.length,
-      buffer.sampleRate
-    );
-
-    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
-      const channelData = buffer.getChannelData(channel);
-      const reversedData = reversedBuffer.getChannelData(channel);
-      for (let i = 0; i < channelData.length; i++) {
-        reversedData[i] = channelData[channelData.length - 1 - i];
-      }
+    try {
+      const { bytes, verification, visual } = await job.result;
+      const output = sink ? await sink.close() : new Blob([bytes!], { type: outputMimeType(request.format) });
+      return { output, name, verification, visual };
+    } catch (error) {
+      await sink?.abort();
+      throw error;
     }
-
-    return reversedBuffer;
   };
 
-  const audioBufferToWav = (buffer: AudioBuffer): Blob => {
-    const numberOfChannels = buffer.numberOfChannels;
-    const length = buffer.length * numberOfChannels * 2;
-    const sampleRate = buffer.sampleRate;
-    
-    const wav = new ArrayBuffer(44 + length);
-    const view = new DataView(wav);
-    
-    // Write WAV header
-    // "RIFF" chunk descriptor
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + length, true);
-    writeString(view, 8, 'WAVE');
-    
-    // "fmt " sub-chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // fmt chunk size
-    view.setUint16(20, 1, true); // audio format (1 for PCM)
-    view.setUint16(22, numberOfChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numberOfChannels * 2, true); // byte rate
-    view.setUint16(32, numberOfChannels * 2, true); // block align
-    view.setUint16(34, 16, true); // bits per sample
-    
-    // "data" sub-chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, length, true);
-    
-    // Write interleaved audio data
-    const offset = 44;
-    const channelData = new Array(numberOfChannels).fill(0).map((_, i) => buffer.getChannelData(i));
-    for (let i = 0; i < buffer.length; i++) {
-      for (let channel = 0; channel < numberOfChannels; channel++) {
-        const sample = Math.max(-1, Math.min(1, channelData[channel][i]));
-        view.setInt16(offset + (i * numberOfChannels + channel) * 2, sample * 0x7FFF, true);
-      }
-    }
-    
-    return new Blob([wav], { type: 'audio/wav' });
-  };
+  // The file picker's cancel button counts as cancelling the job
+  const isCancellation = (error: unknown) =>
+    error instanceof CancelledError || (error instanceof DOMException && error.name === 'AbortError');
 
-  const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
+  // A file that can't be read is shown under the file, everything else gets an alert
+  const reportError = (error: unknown, action: string) => {
+    if (isCancellation(error)) return;
+    if (error instanceof UnsupportedAudioError) {
+      setInputError(error.message);
+      return;
     }
+    console.error(`Error ${action}:`, error);
+    alert(`Error ${action}: ${(error as Error).message}`);
   };
 
-  const generateEncodingCode = (): string => {
-    const typePrefix = encodingType === 'split' ? 's' : encodingType === 'oddEven' ? 'oe' : '';
-    if (!typePrefix) return '';
-    
-    const partsCode = encodingType === 'split' ? `b${numberOfParts}` : 'b';
-    const intervalCode = `b${interval}`;
-    const reverseCode = isReversed ? 't' : 'f';
-    
-    return `${typePrefix}${partsCode}${intervalCode}${reverseCode}`;
+  // One file opens the encode/decode panels, several go to the batch queue
+  const selectFiles = (selected: File[]) => {
+    setFiles(selected);
+    setFile(selected.length === 1 ? selected[0] : null);
   };
 
-  const parseEncodingCode = (code: string): boolean => {
-    try {
-      // Split by 'b' to get parts: [type, parts, interval, reverse]
-      const parts = code.split('b');
-      if (parts.length !== 3) return false;
-
-      const [type, partsStr, intervalWithReverse] = parts;
-      if (!type || !intervalWithReverse) return false;
-
-      // Parse reverse flag (last character)
-      const reverse = intervalWithReverse.slice(-1);
-      if (reverse !== 't' && reverse !== 'f') return false;
-
-      // Parse interval (everything except last character)
-      const interval = parseFloat(intervalWithReverse.slice(0, -1));
-      if (isNaN(interval) || interval < 0.001 || interval > 10) return false;
-
-      // Parse type and parts
-      if (type === 's') {
-        const parts = parseInt(partsStr);
-        if (isNaN(parts) || parts < 2 || parts > 10) return false;
-        setDecodingType('split');
-        setDecodeNumberOfParts(parts);
-      } else if (type === 'oe') {
-        if (partsStr !== '') return false;
-        setDecodingType('oddEven');
-      } else {
-        return false;
-      }
+  // Both panels work from a spec: the encode panel builds one and shows its
+  // code, the decode panel parses one from the code box. Stages that work on
+  // integer samples follow the depth of the chosen output format.
+  const encodingSpec: EncodingSpec = withSampleGrid(
+    useRanges && duration !== null ? { stages, ranges } : { stages },
+    sampleGrid(outputFormat(encodeFormat.name))
+  );
+  const encodeError = stages.length > 0 ? validateSpec(encodingSpec) : null;
 
-      setDecodeInterval(interval);
-      setIsDecodeReversed(reverse === 't');
-      return true;
-    } catch (error) {
-      return false;
-    }
-  };
+  const decodeParse = useMemo(() => (decodeInputCode.trim() ? parseSpec(decodeInputCode) : null), [decodeInputCode]);
+  const decodeSpec = decodeParse?.ok ? decodeParse.spec : null;
 
   const encodeAudio = async () => {
     if (!file) return;
     setIsProcessing(true);
 
     try {
-      const audioContext = await initAudioContext();
-      const arrayBuffer = await file.arrayBuffer();
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-      
-      // Create segments
-      const segments = await createAudioSegments(audioBuffer, interval);
-      
-      // Reorder segments based on encoding type
-      let reorderedSegments: AudioSegment[] = [];
-      
-      if (encodingType === 'split') {
-        // Split into N parts and interleave
-        const segmentsPerPart = Math.ceil(segments.length / numberOfParts);
-        const parts: AudioSegment[][] = [];
-        
-        // Divide segments into N parts
-        for (let i = 0; i < numberOfParts; i++) {
-          const startIdx = i * segmentsPerPart;
-          const endIdx = Math.min((i + 1) * segmentsPerPart, segments.length);
-          parts.push(segments.slice(startIdx, endIdx));
-        }
-        
-        // Interleave segments from all parts
-        const maxLength = Math.max(...parts.map(part => part.length));
-        for (let i = 0; i < maxLength; i++) {
-          for (let part of parts) {
-            if (part[i]) {
-              reorderedSegments.push(part[i]);
-            }
-          }
-        }
-      } else if (encodingType === 'oddEven') {
-        // Add odd indices first, then even indices
-        const odd = segments.filter((_, i) => i % 2 === 0);
-        const even = segments.filter((_, i) => i % 2 === 1);
-        reorderedSegments = [...odd, ...even];
-      }
-
-      // Process the reordered segments in batches
-      const encodedBuffer = await processInBatches(
-        reorderedSegments,
-        audioContext,
-        audioBuffer.numberOfChannels,
-        audioBuffer.sampleRate
+      const metadata = embedCode ? { code: serializeSpec(encodingSpec) } : {};
+      const format = outputFormat(encodeFormat.name, encodeFormat.dither);
+      const { output, name, verification, visual } = await runJob(
+        { direction: 'encode', spec: encodingSpec, key: encodeKey, metadata, format, verify: verifyEncode },
+        encodeJobRef,
+        setEncodeProgress
       );
 
-      // Clear original segments
-      segments.length = 0;
-      reorderedSegments.length = 0;
-
-      // Apply reverse if needed
-      const finalBuffer = isReversed ? reverseAudioBuffer(encodedBuffer) : encodedBuffer;
+      setVerification(verification);
+      setEncodeVisual(visual);
 
-      // Convert to WAV and create URL
-      const wavBlob = audioBufferToWav(finalBuffer);
       if (encodedAudioUrl) {
         URL.revokeObjectURL(encodedAudioUrl);
       }
-      const url = URL.createObjectURL(wavBlob);
-      setEncodedAudioUrl(url);
+      setEncodedAudioUrl(output ? URL.createObjectURL(output) : '');
+      setEncodedFileName(name);
+      setEncodedSavedToDisk(!output);
+      if (opusAudioUrl) URL.revokeObjectURL(opusAudioUrl);
+      setOpusAudioUrl('');
       
     } catch (error) {
-      console.error('Error encoding audio:', error);
-      alert('Error encoding audio. Please try again.');
+      reportError(error, 'encoding audio');
     } finally {
+      encodeJobRef.current = null;
+      setEncodeProgress(null);
       setIsProcessing(false);
     }
   };
@@ -310,106 +202,150 @@ export const AudioProcessor = () => {
     setIsDecoding(true);
 
     try {
-      const audioContext = await initAudioContext();
-      const arrayBuffer = await file.arrayBuffer();
-      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-
-      // First reverse the audio if it was reversed during encoding
-      let workingBuffer = isDecodeReversed ? reverseAudioBuffer(audioBuffer) : audioBuffer;
-      
-      // Create segments
-      const segments = await createAudioSegments(workingBuffer, decodeInterval);
-      
-      // Reorder segments based on decoding type
-      let reorderedSegments: AudioSegment[] = [];
-      
-      if (decodingType === 'split') {
-        // For split decoding, we need to un-interleave the parts
-        const totalSegments = segments.length;
-        const segmentsPerPart = Math.ceil(totalSegments / decodeNumberOfParts);
-        
-        // Create array to hold segments in their original positions
-        reorderedSegments = new Array(totalSegments);
-        
-        // Calculate where each segment should go
-        segments.forEach((segment, index) => {
-          const partIndex = index % decodeNumberOfParts;
-          const positionInPart = Math.floor(index / decodeNumberOfParts);
-          const finalPosition = partIndex * segmentsPerPart + positionInPart;
-          if (finalPosition < totalSegments) {
-            reorderedSegments[finalPosition] = segment;
-          }
-        });
-        
-        // Remove any undefined elements (in case of uneven division)
-        reorderedSegments = reorderedSegments.filter(Boolean);
-        
-      } else if (decodingType === 'oddEven') {
-        // For odd/even decoding, we need to reorder odd and even segments
-        const totalSegments = segments.length;
-        const oddCount = Math.ceil(totalSegments / 2);
-        
-        // First half of segments are odd positions
-        const odds = segments.slice(0, oddCount);
-        // Second half of segments are even positions
-        const evens = segments.slice(oddCount);
-        
-        // Interleave them back in the correct order
-        reorderedSegments = new Array(totalSegments);
-        odds.forEach((segment, index) => {
-          reorderedSegments[index * 2] = segment;
-        });
-        evens.forEach((segment, index) => {
-          if (index * 2 + 1 < totalSegments) {
-            reorderedSegments[index * 2 + 1] = segment;
-          }
-        });
-        
-        // Remove any undefined elements
-        reorderedSegments = reorderedSegments.filter(Boolean);
-      }
-
-      // Process the reordered segments in batches
-      const decodedBuffer = await processInBatches(
-        reorderedSegments,
-        audioContext,
-        workingBuffer.numberOfChannels,
-        workingBuffer.sampleRate
+      const format = outputFormat(decodeFormat.name, decodeFormat.dither);
+      const { output, name, visual } = await runJob(
+        { direction: 'decode', spec: decodeSpec!, key: decodeKey, metadata: {}, format, verify: false },
+        decodeJobRef,
+        setDecodeProgress
       );
 
-      // Clear segments from memory
-      segments.length = 0;
-      reorderedSegments.length = 0;
-
-      // Convert to WAV and create URL
-      const wavBlob = audioBufferToWav(decodedBuffer);
       if (decodedAudioUrl) {
         URL.revokeObjectURL(decodedAudioUrl);
       }
-      const url = URL.createObjectURL(wavBlob);
-      setDecodedAudioUrl(url);
+      setDecodedAudioUrl(output ? URL.createObjectURL(output) : '');
+      setDecodedFileName(name);
+      setDecodedSavedToDisk(!output);
+      setDecodeVisual(visual);
       
     } catch (error) {
-      console.error('Error decoding audio:', error);
-      alert('Error decoding audio. Please try again.');
+      reportError(error, 'decoding audio');
     } finally {
+      decodeJobRef.current = null;
+      setDecodeProgress(null);
       setIsDecoding(false);
     }
   };
 
-  useEffect(() => {
-    if (decodeInputCode) {
-      setIsValidCode(parseEncodingCode(decodeInputCode));
-    } else {
-      setIsValidCode(true);
+  // Compresses the encoded file for sending. The code embedded in it carries over.
+  const exportOpus = async () => {
+    if (!encodedAudioUrl) return;
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    opusAbortRef.current = controller;
+    setOpusProgress({ fraction: 0, startedAt });
+
+    try {
+      const encoded = await (await fetch(encodedAudioUrl)).blob();
+      const code = await readFileCode(encoded);
+      const output = await exportWebmOpus(encoded, {
+        bitrate: opusBitrate,
+        metadata: code ? { code } : {},
+        onProgress: fraction => setOpusProgress({ fraction, startedAt }),
+        signal: controller.signal
+      });
+
+      if (opusAudioUrl) URL.revokeObjectURL(opusAudioUrl);
+      setOpusAudioUrl(URL.createObjectURL(output));
+    } catch (error) {
+      reportError(error, 'exporting WebM/Opus');
+    } finally {
+      opusAbortRef.current = null;
+      setOpusProgress(null);
+    }
+  };
+
+  // Searches split/oddEven codes for the one that puts the file back together
+  // most smoothly, for when the code has been lost
+  const estimateFileCode = async () => {
+    if (!file) return;
+    const startedAt = Date.now();
+    setEstimateProgress({ fraction: 0, startedAt });
+    setEstimates(null);
+
+    try {
+      const input = await readCodecInput(file, async bytes => (await initAudioContext()).decodeAudioData(bytes));
+      const job = startEstimateJob(input, fraction => setEstimateProgress({ fraction, startedAt }));
+      estimateJobRef.current = job;
+      setEstimates(await job.result);
+    } catch (error) {
+      reportError(error, 'estimating code');
+    } finally {
+      estimateJobRef.current = null;
+      setEstimateProgress(null);
     }
-  }, [decodeInputCode]);
+  };
+
+  // The selected file plays in the visualizer's original or encoded row
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setFileUrl(url);
+    setEncodeVisual(null);
+    setDecodeVisual(null);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  // Catch formats that can't be read before anything runs on them
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setInputError(null);
+
+    checkAudioFile(file).then((error) => {
+      if (!cancelled) setInputError(error);
+    });
 
-  const handleDownload = (url: string, prefix: string) => {
-    if (url && file) {
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Ranges are picked on the file's own timeline, so a new file starts over
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setDuration(null);
+    setRanges([]);
+
+    readFileDuration(file).catch(() => null).then((seconds) => {
+      if (!cancelled) setDuration(seconds);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Pre-fill the decode panel from an embedded encoding chunk
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    setEstimates(null);
+
+    // An unreadable file has no code to offer; loading it reports the error
+    readFileCode(file).catch(() => null).then((code) => {
+      if (cancelled) return;
+      setEmbeddedCode(code);
+      // A file without a code mustn't keep the last file's
+      setDecodeInputCode(code ?? '');
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const canEncode = !inputError
+    && stages.length > 0
+    && !encodeError
+    && (!needsKey(encodingSpec) || encodeKey !== '');
+  const canDecode = !inputError && decodeSpec !== null && (!needsKey(decodeSpec) || decodeKey !== '');
+
+  const handleDownload = (url: string, name: string) => {
+    if (url) {
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${prefix}_${file.name}`; // Keep original extension
+      a.download = name;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -424,73 +360,88 @@ export const AudioProcessor = () => {
       </div>
       <div className="top-section">
         <h1>Audio Encode</h1>
-        <FileDropzone onFileSelect={setFile} />
+        <FileDropzone onFilesSelect={selectFiles} />
         {file && (
           <div className="file-info">
             Selected file: {file.name} ({(file.size / (1024 * 1024)).toFixed(2)} MB)
           </div>
         )}
+        {file && inputError && (
+          <p style={{ color: '#ff0000', margin: '5px 0 0 0', fontSize: '0.9em' }}>{inputError}</p>
+        )}
+        {files.length > 1 && (
+          <div className="file-info">
+            Selected {files.length} files ({(files.reduce((total, f) => total + f.size, 0) / (1024 * 1024)).toFixed(2)} MB)
+          </div>
+        )}
       </div>
 
+      {files.length > 1 && <BatchQueue files={files} />}
+
       {file && (
         <div className="split-container">
           <div className="panel encode">
             <h2>Encode</h2>
             <div className="encoding-options">
-              <div style={{ marginBottom: '15px' }}>
-                <label style={{ marginRight: '10px' }}>Encoding Type:</label>
-                <select
-                  value={encodingType}
-                  onChange={(e) => setEncodingType(e.target.value as EncodingType)}
-                  style={{ padding: '5px', borderRadius: '4px' }}
-                >
-                  <option value="none">None</option>
-                  <option value="split">Split</option>
-                  <option value="oddEven">Odd/Even</option>
-                </select>
-              </div>
+              <StageEditor stages={stages} onChange={setStages} />
+
+              {duration !== null && (
+                <div style={{ marginBottom: '15px' }}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={useRanges}
+                      onChange={(e) => setUseRanges(e.target.checked)}
+                      style={{ marginRight: '5px' }}
+                    />
+                    Only scramble selected ranges
+                  </label>
+                </div>
+              )}
+              {duration !== null && useRanges && (
+                <RangeSelector ranges={ranges} duration={duration} onChange={setRanges} />
+              )}
 
-              {encodingType === 'split' && (
+              {needsKey(encodingSpec) && (
                 <div style={{ marginBottom: '15px' }}>
-                  <label style={{ marginRight: '10px' }}>Number of Parts:</label>
+                  <label style={{ marginRight: '10px' }}>Key:</label>
                   <input
-                    type="number"
-                    min="2"
-                    max="10"
-                    step="1"
-                    value={numberOfParts}
-                    onChange={(e) => setNumberOfParts(Math.max(2, parseInt(e.target.value)))}
-                    style={{ padding: '5px', borderRadius: '4px', width: '100px' }}
+                    type="password"
+                    value={encodeKey}
+                    onChange={(e) => setEncodeKey(e.target.value)}
+                    placeholder="passphrase or number"
+                    style={{ padding: '5px', borderRadius: '4px', width: '160px' }}
                   />
                 </div>
               )}
 
-              <div style={{ marginBottom: '15px' }}>
-                <label style={{ marginRight: '10px' }}>Interval (seconds):</label>
-                <input
-                  type="number"
-                  min="0.001"
-                  max="10"
-                  step="0.001"
-                  value={interval}
-                  onChange={(e) => setInterval(parseFloat(e.target.value))}
-                  style={{ padding: '5px', borderRadius: '4px', width: '100px' }}
-                />
-              </div>
-
               <div style={{ marginBottom: '15px' }}>
                 <label style={{ marginRight: '10px' }}>
                   <input
                     type="checkbox"
-                    checked={isReversed}
-                    onChange={(e) => setIsReversed(e.target.checked)}
+                    checked={embedCode}
+                    onChange={(e) => setEmbedCode(e.target.checked)}
                     style={{ marginRight: '5px' }}
                   />
-                  Reverse Audio
+                  Embed code in file
                 </label>
+                <label style={{ marginRight: '10px' }}>
+                  <input
+                    type="checkbox"
+                    checked={verifyEncode}
+                    onChange={(e) => setVerifyEncode(e.target.checked)}
+                    style={{ marginRight: '5px' }}
+                  />
+                  Verify after encoding
+                </label>
+                <OutputFormatSelect
+                  name={encodeFormat.name}
+                  dither={encodeFormat.dither}
+                  onChange={(name, dither) => setEncodeFormat({ name, dither })}
+                />
               </div>
 
-              {encodingType !== 'none' && (
+              {stages.length > 0 && (
                 <div className="encoding-code" style={{ 
                   marginTop: '20px',
                   padding: '10px',
@@ -505,31 +456,107 @@ export const AudioProcessor = () => {
                     backgroundColor: 'rgba(0, 0, 0, 0.3)',
                     padding: '5px 10px',
                     borderRadius: '3px'
-                  }}>{generateEncodingCode()}</code>
+                  }}>{encodeError ? '—' : serializeSpec(encodingSpec)}</code>
+                  {encodeError && (
+                    <p style={{ color: '#ff0000', margin: '5px 0 0 0', fontSize: '0.9em' }}>{encodeError.message}</p>
+                  )}
                 </div>
               )}
 
               <button
                 onClick={encodeAudio}
-                disabled={isProcessing || encodingType === 'none'}
-                className={`button ${encodingType === 'none' ? 'disabled' : 'primary'}`}
+                disabled={isProcessing || !canEncode}
+                className={`button ${!canEncode ? 'disabled' : 'primary'}`}
                 style={{ marginTop: '20px' }}
               >
                 {isProcessing ? 'Processing...' : 'Encode Audio'}
               </button>
+
+              {encodeProgress && (
+                <JobProgress
+                  fraction={encodeProgress.fraction}
+                  startedAt={encodeProgress.startedAt}
+                  onCancel={() => encodeJobRef.current?.cancel()}
+                />
+              )}
             </div>
 
+            {encodedSavedToDisk && (
+              <p style={{ fontSize: '0.9em', color: '#00ff9d' }}>
+                Encoded audio saved to disk.
+                {verifyEncode && ' Files this large are streamed and not verified.'}
+              </p>
+            )}
+
             {encodedAudioUrl && (
               <div className="audio-controls">
                 <audio controls src={encodedAudioUrl} style={{ width: '100%', marginBottom: '10px' }} />
+                {verification && <VerificationBadge result={verification} />}
                 <button
-                  onClick={() => handleDownload(encodedAudioUrl, 'encoded')}
+                  onClick={() => handleDownload(encodedAudioUrl, encodedFileName)}
                   className="button success"
                 >
                   Download Encoded Audio
                 </button>
+
+                <div style={{ marginTop: '10px' }}>
+                  <select
+                    value={opusBitrate}
+                    onChange={(e) => setOpusBitrate(parseInt(e.target.value))}
+                    disabled={opusProgress !== null}
+                    style={{ padding: '5px', borderRadius: '4px', marginRight: '10px' }}
+                  >
+                    {OPUS_BITRATES.map(bitrate => (
+                      <option key={bitrate} value={bitrate}>{bitrate / 1000} kbps</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={exportOpus}
+                    disabled={opusProgress !== null || !canExportOpus()}
+                    className="button"
+                  >
+                    Export WebM/Opus
+                  </button>
+                  {opusAudioUrl && (
+                    <button
+                      onClick={() => handleDownload(opusAudioUrl, encodedFileName.replace(/\.[^.]*$/, '.webm'))}
+                      className="button success"
+                      style={{ marginLeft: '10px' }}
+                    >
+                      Download WebM/Opus
+                    </button>
+                  )}
+                  {!canExportOpus() && (
+                    <p style={{ fontSize: '0.8em', color: '#888', margin: '5px 0 0 0' }}>
+                      This browser can't encode Opus.
+                    </p>
+                  )}
+                  {canExportOpus() && !stages.some(stage => stage.type === 'sync') && (
+                    <p style={{ fontSize: '0.8em', color: '#888', margin: '5px 0 0 0' }}>
+                      Add a Sync Markers stage for a decode that survives Opus and other lossy codecs.
+                    </p>
+                  )}
+                </div>
+
+                {opusProgress && (
+                  <JobProgress
+                    fraction={opusProgress.fraction}
+                    startedAt={opusProgress.startedAt}
+                    onCancel={() => opusAbortRef.current?.abort()}
+                  />
+                )}
               </div>
             )}
+
+            {encodeVisual && (
+              <SegmentVisualizer
+                rows={[
+                  { label: 'Original', waveform: encodeVisual.input, url: fileUrl, space: 'original' },
+                  { label: 'Encoded', waveform: encodeVisual.output, url: encodedAudioUrl, space: 'encoded' }
+                ]}
+                pieces={encodeVisual.pieces}
+              />
+            )}
           </div>
 
           <div className="panel decode">
@@ -541,12 +568,12 @@ export const AudioProcessor = () => {
                   type="text"
                   value={decodeInputCode}
                   onChange={(e) => setDecodeInputCode(e.target.value)}
-                  placeholder="e.g. sb5b0.2bt"
+                  placeholder="e.g. v1:sb5b0.2t"
                   style={{
                     width: '80%',
                     padding: '10px',
                     borderRadius: '5px',
-                    border: `1px solid ${isValidCode ? '#bf00ff' : '#ff0000'}`,
+                    border: `1px solid ${decodeParse?.ok === false ? '#ff0000' : '#bf00ff'}`,
                     backgroundColor: 'rgba(0, 0, 0, 0.2)',
                     color: '#fff',
                     fontSize: '1.1em',
@@ -555,36 +582,149 @@ export const AudioProcessor = () => {
                     margin: '0 auto'
                   }}
                 />
-                {!isValidCode && decodeInputCode && (
+                {decodeParse?.ok === false && (
                   <p style={{ color: '#ff0000', margin: '5px 0 0 0', fontSize: '0.9em' }}>
-                    Invalid encoding code format
+                    {decodeParse.error.message}
+                  </p>
+                )}
+                {embeddedCode && decodeInputCode === embeddedCode && (
+                  <p style={{ color: '#00ff9d', margin: '5px 0 0 0', fontSize: '0.9em' }}>
+                    Code read from file
                   </p>
                 )}
               </div>
 
+              {decodeSpec && needsKey(decodeSpec) && (
+                <div style={{ marginBottom: '20px' }}>
+                  <label style={{ marginRight: '10px' }}>Key:</label>
+                  <input
+                    type="password"
+                    value={decodeKey}
+                    onChange={(e) => setDecodeKey(e.target.value)}
+                    placeholder="passphrase or number"
+                    style={{ padding: '5px', borderRadius: '4px', width: '160px' }}
+                  />
+                </div>
+              )}
+
+              <div style={{ marginBottom: '15px' }}>
+                <OutputFormatSelect
+                  name={decodeFormat.name}
+                  dither={decodeFormat.dither}
+                  onChange={(name, dither) => setDecodeFormat({ name, dither })}
+                />
+              </div>
+
               <button
                 onClick={decodeAudio}
-                disabled={isDecoding || !isValidCode || !decodeInputCode}
-                className={`button ${!isValidCode || !decodeInputCode ? 'disabled' : 'primary'}`}
+                disabled={isDecoding || !canDecode}
+                className={`button ${!canDecode ? 'disabled' : 'primary'}`}
               >
                 {isDecoding ? 'Processing...' : 'Decode Audio'}
               </button>
+
+              <button
+                onClick={estimateFileCode}
+                disabled={estimateProgress !== null || inputError !== null}
+                className="button"
+                style={{ marginLeft: '10px' }}
+              >
+                {estimateProgress ? 'Estimating...' : 'Estimate Code'}
+              </button>
+
+              {decodeProgress && (
+                <JobProgress
+                  fraction={decodeProgress.fraction}
+                  startedAt={decodeProgress.startedAt}
+                  onCancel={() => decodeJobRef.current?.cancel()}
+                />
+              )}
+
+              {decodeSpec && canDecode && <LivePlayer file={file} spec={decodeSpec} decodeKey={decodeKey} />}
+
+              {estimateProgress && (
+                <JobProgress
+                  fraction={estimateProgress.fraction}
+                  startedAt={estimateProgress.startedAt}
+                  onCancel={() => estimateJobRef.current?.cancel()}
+                />
+              )}
+
+              {estimates && (
+                <div style={{ marginTop: '15px', fontSize: '0.9em', textAlign: 'left' }}>
+                  {estimates.length === 0 ? (
+                    <p style={{ color: '#ccc' }}>
+                      No segment boundaries found. The file may not be split/odd-even encoded,
+                      or it also uses keyed or transform stages.
+                    </p>
+                  ) : (
+                    <>
+                      {/* A confident estimate is also a verdict on the encoding: anyone can undo it */}
+                      <p style={{ color: estimates[0].confidence >= 0.5 ? '#ff9d00' : '#ccc', margin: '0 0 10px 0' }}>
+                        {estimates[0].confidence >= 0.5
+                          ? 'Recovered with high confidence: this encoding doesn\'t hide the audio on its own. Add keyed stages for protection.'
+                          : 'No confident match. Try the candidates below, or the file uses stages that can\'t be estimated.'}
+                      </p>
+                      {estimates.slice(0, 5).map((estimate) => (
+                        <div
+                          key={estimate.code}
+                          style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '5px' }}
+                        >
+                          <code style={{ color: '#fff' }}>{estimate.code}</code>
+                          <span style={{ color: '#ccc' }}>{Math.round(estimate.confidence * 100)}%</span>
+                          <button
+                            onClick={() => setDecodeInputCode(estimate.code)}
+                            className="button"
+                            style={{ padding: '3px 10px' }}
+                          >
+                            Use
+                          </button>
+                        </div>
+                      ))}
+                    </>
+                  )}
+                </div>
+              )}
             </div>
 
+            {decodedSavedToDisk && (
+              <p style={{ fontSize: '0.9em', color: '#00ff9d' }}>Decoded audio saved to disk.</p>
+            )}
+
             {decodedAudioUrl && (
               <div className="audio-controls">
                 <audio controls src={decodedAudioUrl} style={{ width: '100%', marginBottom: '10px' }} />
                 <button
-                  onClick={() => handleDownload(decodedAudioUrl, 'decoded')}
+                  onClick={() => handleDownload(decodedAudioUrl, decodedFileName)}
                   className="button success"
                 >
                   Download Decoded Audio
                 </button>
               </div>
             )}
+
+            {decodeVisual && (
+              <SegmentVisualizer
+                rows={[
+                  { label: 'Encoded', waveform: decodeVisual.input, url: fileUrl, space: 'encoded' },
+                  { label: 'Decoded', waveform: decodeVisual.output, url: decodedAudioUrl, space: 'original' }
+                ]}
+                pieces={decodeVisual.pieces}
+              />
+            )}
           </div>
         </div>
       )}
+
+      {file && (
+        <AudioEditor
+          tracks={[
+            { label: 'Selected file', url: fileUrl },
+            { label: 'Encoded', url: encodedAudioUrl },
+            { label: 'Decoded', url: decodedAudioUrl }
+          ]}
+        />
+      )}
     </div>
   );
 }; 
\ No newline at end of file
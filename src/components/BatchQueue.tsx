@@ -0,0 +1,343 @@
+import { useState, useEffect, useRef } from 'react';
+import { JobProgress } from './JobProgress';
+import { OutputFormatSelect } from './OutputFormatSelect';
+import {
+  needsKey,
+  outputFileName,
+  outputFormat,
+  outputMimeType,
+  parseSpec,
+  sampleGrid,
+  serializeSpec,
+  withSampleGrid
+} from '../engine';
+import type { OutputFormat, OutputFormatName } from '../engine';
+import { CancelledError, readCodecInput, readFileCode, startCodecJob } from '../workers/codec';
+import type { CodecDirection, CodecJob } from '../workers/codec';
+import { blobSink } from '../workers/sink';
+import { createZip } from '../workers/zip';
+
+type BatchStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface BatchItem {
+  file: File;
+  code: string; // blank uses the embedded code when decoding, then the shared code
+  embeddedCode: string | null;
+  status: BatchStatus;
+  error?: string;
+  // Set once the file has been processed
+  direction?: CodecDirection;
+  usedCode?: string;
+  format?: OutputFormat;
+  output?: Blob;
+  outputName?: string;
+}
+
+interface BatchQueueProps {
+  files: File[];
+}
+
+interface ProgressState {
+  fraction: number;
+  startedAt: number;
+}
+
+const STATUS_COLORS: Record<BatchStatus, string> = {
+  queued: '#888',
+  running: '#fff',
+  done: '#00ff9d',
+  failed: '#ff0000',
+  cancelled: '#888'
+};
+
+// Names have to be unique within the zip
+const outputNames = (files: File[], prefix: string, format: OutputFormat): string[] => {
+  const used = new Set<string>();
+  return files.map((file) => {
+    let name = outputFileName(file.name, prefix, format);
+    for (let n = 2; used.has(name); n++) {
+      name = outputFileName(`${file.name.replace(/\.[^.]*$/, '')} (${n})`, prefix, format);
+    }
+    used.add(name);
+    return name;
+  });
+};
+
+const inputStyle = { padding: '5px', borderRadius: '4px', fontFamily: 'monospace' };
+
+export const BatchQueue = ({ files }: BatchQueueProps) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [direction, setDirection] = useState<CodecDirection>('encode');
+  const [sharedCode, setSharedCode] = useState('');
+  const [key, setKey] = useState('');
+  const [embedCode, setEmbedCode] = useState(true);
+  const [formatName, setFormatName] = useState<OutputFormatName>('wav16');
+  const [dither, setDither] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [progress, setProgress] = useState<ProgressState | null>(null);
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const jobRef = useRef<CodecJob | null>(null);
+  const stopRef = useRef(false);
+
+  useEffect(() => {
+    return () => {
+      stopRef.current = true;
+      jobRef.current?.cancel();
+      audioContextRef.current?.close();
+    };
+  }, []);
+
+  // Start a fresh queue for each drop, then fill in any embedded codes
+  useEffect(() => {
+    let cancelled = false;
+    setItems(files.map(file => ({ file, code: '', embeddedCode: null, status: 'queued' })));
+
+    // A file that can't be read just has no embedded code; running it reports why
+    const probes = files.map(file => readFileCode(file).catch(() => null));
+    Promise.all(probes).then((codes) => {
+      if (cancelled) return;
+      setItems(current => current.map((item, i) => ({ ...item, embeddedCode: codes[i] })));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [files]);
+
+  const decodeAudio = async (bytes: ArrayBuffer) => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext();
+    }
+    return audioContextRef.current.decodeAudioData(bytes);
+  };
+
+  const updateItem = (index: number, changes: Partial<BatchItem>) => {
+    setItems(current => current.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const codeFor = (item: BatchItem): string =>
+    item.code || (direction === 'decode' && item.embeddedCode) || sharedCode;
+
+  const parsed = items.map(item => parseSpec(codeFor(item)));
+  const keyed = parsed.some(result => result.ok && needsKey(result.spec));
+
+  const runQueue = async () => {
+    const queue = items;
+    const format = outputFormat(formatName, dither);
+    const names = outputNames(queue.map(item => item.file), direction === 'encode' ? 'encoded' : 'decoded', format);
+    const startedAt = Date.now();
+    stopRef.current = false;
+    setIsRunning(true);
+    setItems(queue.map(item => ({ ...item, status: 'queued', error: undefined, output: undefined })));
+    setProgress({ fraction: 0, startedAt });
+
+    for (const [index, item] of queue.entries()) {
+      if (stopRef.current) {
+        updateItem(index, { status: 'cancelled' });
+        continue;
+      }
+
+      const result = parsed[index];
+      if (!result.ok) {
+        updateItem(index, { status: 'failed', error: `Invalid encoding code: ${result.error.message}` });
+        continue;
+      }
+      // Encoding moves integer stages to the depth of the output format
+      const spec = direction === 'encode' ? withSampleGrid(result.spec, sampleGrid(format)) : result.spec;
+      if (needsKey(spec) && !key) {
+        updateItem(index, { status: 'failed', error: 'This code needs a key' });
+        continue;
+      }
+
+      const code = serializeSpec(spec);
+      updateItem(index, { status: 'running', direction, usedCode: code, format });
+
+      try {
+        const input = await readCodecInput(item.file, decodeAudio);
+        // Large files stream in the worker; a whole batch can't go through
+        // the save picker, so they collect into a Blob for the zip
+        const sink = input instanceof Blob ? blobSink(format) : null;
+        const metadata = direction === 'encode' && embedCode ? { code } : {};
+        const job = startCodecJob(
+          { direction, input, spec, key, metadata, format, verify: false },
+          fraction => setProgress({ fraction: (index + fraction) / queue.length, startedAt }),
+          sink?.write
+        );
+        jobRef.current = job;
+
+        const { bytes } = await job.result;
+        const output = sink ? await sink.close() : new Blob([bytes!], { type: outputMimeType(format) });
+        updateItem(index, { status: 'done', output: output!, outputName: names[index] });
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          updateItem(index, { status: 'cancelled' });
+        } else {
+          updateItem(index, { status: 'failed', error: (error as Error).message });
+        }
+      } finally {
+        jobRef.current = null;
+      }
+    }
+
+    setProgress(null);
+    setIsRunning(false);
+  };
+
+  const cancelQueue = () => {
+    stopRef.current = true;
+    jobRef.current?.cancel();
+  };
+
+  // Every file goes in the manifest, with the code it was processed with or why it failed.
+  // Keys are never written.
+  const downloadZip = async () => {
+    setIsZipping(true);
+    try {
+      const manifest = {
+        createdAt: new Date().toISOString(),
+        files: items.map(item => ({
+          source: item.file.name,
+          output: item.output ? item.outputName : null,
+          direction: item.direction ?? null,
+          code: item.usedCode ?? null,
+          format: item.format ?? null,
+          status: item.status,
+          ...(item.error && { error: item.error })
+        }))
+      };
+      const zip = await createZip([
+        ...items.filter(item => item.output).map(item => ({ name: item.outputName!, data: item.output! })),
+        { name: 'manifest.json', data: new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }) }
+      ]);
+
+      const url = URL.createObjectURL(zip);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'audio-encode-batch.zip';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      setTimeout(() => URL.revokeObjectURL(url));
+    } catch (error) {
+      console.error('Error creating zip:', error);
+      alert(`Error creating zip: ${(error as Error).message}`);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const hasOutput = items.some(item => item.output);
+
+  return (
+    <div className="panel encode" style={{ marginTop: '20px', textAlign: 'left' }}>
+      <h2 style={{ textAlign: 'center' }}>Batch ({items.length} files)</h2>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '15px', alignItems: 'center', marginBottom: '15px' }}>
+        <select
+          value={direction}
+          onChange={(e) => setDirection(e.target.value as CodecDirection)}
+          disabled={isRunning}
+          style={{ padding: '5px', borderRadius: '4px' }}
+        >
+          <option value="encode">Encode</option>
+          <option value="decode">Decode</option>
+        </select>
+        <label>
+          Code for all files:{' '}
+          <input
+            type="text"
+            value={sharedCode}
+            onChange={(e) => setSharedCode(e.target.value)}
+            placeholder="e.g. v1:sb5b0.2t"
+            style={inputStyle}
+          />
+        </label>
+        {keyed && (
+          <label>
+            Key:{' '}
+            <input
+              type="password"
+              value={key}
+              onChange={(e) => setKey(e.target.value)}
+              placeholder="passphrase or number"
+              style={{ padding: '5px', borderRadius: '4px', width: '160px' }}
+            />
+          </label>
+        )}
+        {direction === 'encode' && (
+          <label>
+            <input
+              type="checkbox"
+              checked={embedCode}
+              onChange={(e) => setEmbedCode(e.target.checked)}
+              style={{ marginRight: '5px' }}
+            />
+            Embed code in files
+          </label>
+        )}
+        <OutputFormatSelect
+          name={formatName}
+          dither={dither}
+          onChange={(name, withDither) => {
+            setFormatName(name);
+            setDither(withDither);
+          }}
+          disabled={isRunning}
+        />
+      </div>
+
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.9em' }}>
+        <thead>
+          <tr style={{ color: '#ccc' }}>
+            <th style={{ textAlign: 'left', padding: '5px' }}>File</th>
+            <th style={{ textAlign: 'left', padding: '5px' }}>Code</th>
+            <th style={{ textAlign: 'left', padding: '5px' }}>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((item, index) => (
+            <tr key={index} style={{ borderTop: '1px solid #333' }}>
+              <td style={{ padding: '5px', wordBreak: 'break-all' }}>{item.file.name}</td>
+              <td style={{ padding: '5px' }}>
+                <input
+                  type="text"
+                  value={item.code}
+                  onChange={(e) => updateItem(index, { code: e.target.value })}
+                  placeholder={codeFor({ ...item, code: '' }) || 'code'}
+                  disabled={isRunning}
+                  title={parsed[index].ok || !codeFor(item) ? undefined : parsed[index].error.message}
+                  style={{ ...inputStyle, border: `1px solid ${parsed[index].ok || !codeFor(item) ? '#555' : '#ff0000'}` }}
+                />
+              </td>
+              <td style={{ padding: '5px', color: STATUS_COLORS[item.status] }}>
+                {item.status}
+                {item.error && `: ${item.error}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '20px' }}>
+        <button
+          onClick={runQueue}
+          disabled={isRunning || items.length === 0}
+          className={`button ${isRunning ? 'disabled' : 'primary'}`}
+        >
+          {isRunning ? 'Processing...' : direction === 'encode' ? 'Encode All' : 'Decode All'}
+        </button>
+        <button
+          onClick={downloadZip}
+          disabled={isRunning || isZipping || !hasOutput}
+          className={`button ${hasOutput && !isRunning ? 'success' : 'disabled'}`}
+        >
+          {isZipping ? 'Zipping...' : 'Download Zip'}
+        </button>
+      </div>
+
+      {progress && <JobProgress fraction={progress.fraction} startedAt={progress.startedAt} onCancel={cancelQueue} />}
+    </div>
+  );
+};
@@ -2,35 +2,54 @@ import { useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 
 interface FileDropzoneProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
 }
 
-export const FileDropzone = ({ onFileSelect }: FileDropzoneProps) => {
+// WAV and AIFF are read natively; the rest depend on the browser's decoder
+const ACCEPTED_TYPES = {
+  'audio/wav': ['.wav'],
+  'audio/aiff': ['.aiff', '.aif', '.aifc'],
+  'audio/flac': ['.flac'],
+  'audio/mpeg': ['.mp3'],
+  'audio/ogg': ['.ogg', '.oga', '.opus'],
+  'audio/mp4': ['.m4a'],
+  'audio/webm': ['.webm']
+};
+
+const extensionOf = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+export const FileDropzone = ({ onFilesSelect }: FileDropzoneProps) => {
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      onFileSelect(acceptedFiles[0]);
+      onFilesSelect(acceptedFiles);
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+  const { getRootProps, getInputProps, isDragActive, fileRejections } = useDropzone({
     onDrop,
-    accept: {
-      'audio/mpeg': ['.mp3'],
-      'audio/wav': ['.wav'],
-      'audio/webm': ['.webm']
-    },
-    multiple: false
+    accept: ACCEPTED_TYPES,
+    multiple: true
   });
 
   return (
     <div {...getRootProps()} className="dropzone">
       <input {...getInputProps()} />
       {isDragActive ? (
-        <p style={{ color: '#00ff9d' }}>Drop the audio file here...</p>
+        <p style={{ color: '#00ff9d' }}>Drop the audio files here...</p>
       ) : (
-        <p>Drag & drop an audio file here, or click to select</p>
+        <p>Drag & drop audio files here, or click to select</p>
       )}
-      <p style={{ fontSize: '0.8em', color: '#888' }}>Supported formats: MP3, WAV, WebM</p>
+      <p style={{ fontSize: '0.8em', color: '#888' }}>
+        Supported formats: WAV, AIFF, FLAC, MP3, Ogg, M4A, WebM
+      </p>
+      {fileRejections.map(({ file }) => (
+        <p key={file.name} style={{ fontSize: '0.8em', color: '#ff0000', margin: '5px 0 0 0' }}>
+          {file.name}: {extensionOf(file.name) ? `${extensionOf(file.name)} files aren't supported` : 'not an audio file'}
+        </p>
+      ))}
     </div>
   );
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,32 @@
+interface JobProgressProps {
+  fraction: number;
+  startedAt: number; // Date.now() when the job started
+  onCancel: () => void;
+}
+
+const formatDuration = (seconds: number): string => {
+  const total = Math.ceil(seconds);
+  if (total < 60) return `${total} s`;
+  return `${Math.floor(total / 60)} min ${total % 60} s`;
+};
+
+export const JobProgress = ({ fraction, startedAt, onCancel }: JobProgressProps) => {
+  const elapsed = (Date.now() - startedAt) / 1000;
+  // Extrapolate only once there's enough progress to go on
+  const remaining = fraction >= 0.02 ? (elapsed * (1 - fraction)) / fraction : null;
+
+  return (
+    <div style={{ marginTop: '15px' }}>
+      <progress value={fraction} max={1} style={{ width: '100%' }} />
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', fontSize: '0.9em', color: '#ccc' }}>
+        <span>
+          {Math.floor(fraction * 100)}%
+          {remaining !== null && ` · about ${formatDuration(remaining)} left`}
+        </span>
+        <button onClick={onCancel} className="button" style={{ padding: '5px 12px' }}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import type { EncodingSpec } from '../engine';
+import { openDecodePlayer } from '../workers/playback';
+import type { DecodePlayer } from '../workers/playback';
+
+interface LivePlayerProps {
+  file: File;
+  spec: EncodingSpec;
+  decodeKey: string;
+}
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Listens to the decoded audio without rendering it first: decoding happens
+// as it plays, and the seek bar is in the original's time
+export const LivePlayer = ({ file, spec, decodeKey }: LivePlayerProps) => {
+  const [player, setPlayer] = useState<DecodePlayer | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [volume, setVolume] = useState(1);
+
+  // A different file, code or key starts over
+  useEffect(() => {
+    setPlayer(null);
+    setIsPlaying(false);
+    setPosition(0);
+  }, [file, spec, decodeKey]);
+
+  useEffect(() => {
+    return () => {
+      player?.close();
+    };
+  }, [player]);
+
+  const handlePlayPause = async () => {
+    if (player && isPlaying) {
+      await player.pause();
+      setIsPlaying(false);
+      return;
+    }
+
+    try {
+      let current = player;
+      if (!current) {
+        setIsOpening(true);
+        current = await openDecodePlayer(file, spec, decodeKey, {
+          onPosition: setPosition,
+          onEnded: () => setIsPlaying(false),
+          onError: (error) => {
+            console.error('Error decoding for playback:', error);
+            setIsPlaying(false);
+          }
+        });
+        current.setVolume(volume);
+        setPlayer(current);
+      }
+      await current.play();
+      setIsPlaying(true);
+    } catch (error) {
+      console.error('Error starting playback:', error);
+      alert(`Error starting playback: ${(error as Error).message}`);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const newVolume = parseFloat(e.target.value);
+    setVolume(newVolume);
+    player?.setVolume(newVolume);
+  };
+
+  const duration = player?.duration ?? 0;
+
+  return (
+    <div style={{ marginTop: '15px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+        <button
+          onClick={handlePlayPause}
+          disabled={isOpening}
+          className="button"
+          style={{ padding: '5px 12px' }}
+        >
+          {isOpening ? 'Opening...' : isPlaying ? 'Pause' : 'Play Decoded'}
+        </button>
+        <span>{formatTime(position)}</span>
+        <input
+          type="range"
+          min="0"
+          max={duration}
+          step="0.01"
+          value={Math.min(position, duration)}
+          onChange={(e) => player?.seek(parseFloat(e.target.value))}
+          disabled={!player}
+          style={{ flex: 1 }}
+        />
+        <span>{formatTime(duration)}</span>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '10px', marginTop: '5px', fontSize: '0.9em' }}>
+        <span>Volume:</span>
+        <input
+          type="range"
+          min="0"
+          max="1"
+          step="0.01"
+          value={volume}
+          onChange={handleVolumeChange}
+          style={{ width: '120px' }}
+        />
+      </div>
+    </div>
+  );
+};
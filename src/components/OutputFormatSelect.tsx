@@ -0,0 +1,49 @@
+import { OUTPUT_FORMATS } from '../engine';
+import type { OutputFormatName } from '../engine';
+
+interface OutputFormatSelectProps {
+  name: OutputFormatName;
+  dither: boolean;
+  onChange: (name: OutputFormatName, dither: boolean) => void;
+  disabled?: boolean;
+}
+
+const FORMAT_LABELS: Record<OutputFormatName, string> = {
+  wav16: 'WAV 16-bit',
+  wav24: 'WAV 24-bit',
+  wav32: 'WAV 32-bit',
+  float32: 'WAV 32-bit float',
+  flac16: 'FLAC 16-bit',
+  flac24: 'FLAC 24-bit'
+};
+
+export const OutputFormatSelect = ({ name, dither, onChange, disabled }: OutputFormatSelectProps) => (
+  <span style={{ display: 'inline-flex', alignItems: 'center', gap: '10px' }}>
+    <label>
+      Output:{' '}
+      <select
+        value={name}
+        onChange={(e) => onChange(e.target.value as OutputFormatName, dither)}
+        disabled={disabled}
+        style={{ padding: '5px', borderRadius: '4px' }}
+      >
+        {(Object.keys(OUTPUT_FORMATS) as OutputFormatName[]).map(option => (
+          <option key={option} value={option}>{FORMAT_LABELS[option]}</option>
+        ))}
+      </select>
+    </label>
+    {/* Float keeps every sample as it is, so there's nothing to dither */}
+    {!OUTPUT_FORMATS[name].float && (
+      <label title="Add TPDF noise when rounding to the output bit depth">
+        <input
+          type="checkbox"
+          checked={dither}
+          onChange={(e) => onChange(name, e.target.checked)}
+          disabled={disabled}
+          style={{ marginRight: '5px' }}
+        />
+        Dither
+      </label>
+    )}
+  </span>
+);
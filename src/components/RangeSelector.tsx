@@ -0,0 +1,132 @@
+import { useRef, useState } from 'react';
+import type { PointerEvent } from 'react';
+import type { TimeRange } from '../engine';
+
+interface RangeSelectorProps {
+  ranges: TimeRange[];
+  duration: number; // of the selected file, in seconds
+  onChange: (ranges: TimeRange[]) => void;
+}
+
+type Edge = 'start' | 'end';
+
+// Times snap to milliseconds so the code carries them exactly
+const MIN_RANGE = 0.001;
+const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+export const RangeSelector = ({ ranges, duration, onChange }: RangeSelectorProps) => {
+  const timelineRef = useRef<HTMLDivElement | null>(null);
+  const [dragging, setDragging] = useState<{ index: number; edge: Edge } | null>(null);
+
+  // Keeps an edge between its neighbours and inside the audio
+  const moveEdge = (index: number, edge: Edge, seconds: number) => {
+    if (isNaN(seconds)) return;
+    const range = ranges[index];
+    const time = edge === 'start'
+      ? Math.min(range.end - MIN_RANGE, Math.max(index > 0 ? ranges[index - 1].end : 0, seconds))
+      : Math.max(range.start + MIN_RANGE, Math.min(index < ranges.length - 1 ? ranges[index + 1].start : duration, seconds));
+    onChange(ranges.map((current, i) => (i === index ? { ...current, [edge]: roundTime(time) } : current)));
+  };
+
+  const timeAt = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = timelineRef.current!.getBoundingClientRect();
+    return ((event.clientX - bounds.left) / bounds.width) * duration;
+  };
+
+  // A tenth of the audio after the last range, if there's room
+  const addRange = () => {
+    const start = ranges.length > 0 ? ranges[ranges.length - 1].end : 0;
+    onChange([...ranges, { start, end: roundTime(Math.min(duration, start + Math.max(MIN_RANGE, duration / 10))) }]);
+  };
+  const canAdd = (ranges.length > 0 ? ranges[ranges.length - 1].end : 0) + MIN_RANGE <= duration;
+
+  const percent = (seconds: number) => `${(100 * seconds) / Math.max(MIN_RANGE, duration)}%`;
+
+  return (
+    <div style={{ marginBottom: '15px' }}>
+      <div
+        ref={timelineRef}
+        onPointerMove={(e) => dragging && moveEdge(dragging.index, dragging.edge, timeAt(e))}
+        onPointerUp={() => setDragging(null)}
+        style={{
+          position: 'relative',
+          height: '32px',
+          marginBottom: '10px',
+          backgroundColor: 'rgba(0, 0, 0, 0.3)',
+          borderRadius: '4px',
+          touchAction: 'none'
+        }}
+      >
+        {ranges.map((range, index) => (
+          <div
+            key={index}
+            style={{
+              position: 'absolute',
+              top: 0,
+              bottom: 0,
+              left: percent(range.start),
+              width: percent(range.end - range.start),
+              backgroundColor: 'rgba(0, 255, 157, 0.3)'
+            }}
+          >
+            {(['start', 'end'] as Edge[]).map(edge => (
+              <div
+                key={edge}
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId);
+                  setDragging({ index, edge });
+                }}
+                title={`Drag to move the ${edge} of range ${index + 1}`}
+                style={{
+                  position: 'absolute',
+                  top: 0,
+                  bottom: 0,
+                  [edge === 'start' ? 'left' : 'right']: '-4px',
+                  width: '8px',
+                  backgroundColor: '#00ff9d',
+                  borderRadius: '2px',
+                  cursor: 'ew-resize'
+                }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {ranges.map((range, index) => (
+        <div key={index} className="stage-row">
+          <span style={{ marginRight: '10px', color: '#888' }}>{index + 1}.</span>
+          {(['start', 'end'] as Edge[]).map(edge => (
+            <label key={edge} style={{ marginRight: '10px' }}>
+              {edge === 'start' ? 'From' : 'to'}
+              <input
+                type="number"
+                min="0"
+                max={duration}
+                step="0.001"
+                value={range[edge]}
+                onChange={(e) => moveEdge(index, edge, parseFloat(e.target.value))}
+                style={{ padding: '5px', borderRadius: '4px', width: '80px', marginLeft: '5px' }}
+              />
+            </label>
+          ))}
+          <span style={{ color: '#888' }}>s</span>
+          <span style={{ marginLeft: 'auto' }}>
+            <button
+              onClick={() => onChange(ranges.filter((_, i) => i !== index))}
+              className="stage-button"
+              title="Remove range"
+            >
+              ×
+            </button>
+          </span>
+        </div>
+      ))}
+
+      <button onClick={addRange} disabled={!canAdd} className="button" style={{ marginTop: '5px' }}>
+        + Add Range
+      </button>
+      <span style={{ marginLeft: '10px', fontSize: '0.8em', color: '#888' }}>of {duration.toFixed(3)} s</span>
+    </div>
+  );
+};
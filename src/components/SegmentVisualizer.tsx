@@ -0,0 +1,183 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { MouseEvent } from 'react';
+import type { SegmentPiece, Waveform } from '../engine';
+
+// Which side of the segment map a row's audio is laid out like. Decoded audio
+// is back in the original layout.
+export type VisualizerSpace = 'original' | 'encoded';
+
+export interface VisualizerRow {
+  label: string;
+  waveform: Waveform;
+  url: string; // what clicking a segment plays; blank when there's nothing to play
+  space: VisualizerSpace;
+}
+
+interface SegmentVisualizerProps {
+  rows: VisualizerRow[];
+  pieces: SegmentPiece[] | null;
+}
+
+interface Span {
+  piece: SegmentPiece;
+  start: number; // in this row's audio
+}
+
+const CANVAS_WIDTH = 1000;
+const CANVAS_HEIGHT = 80;
+
+// Golden-angle hues keep neighbouring segments apart
+const segmentColor = (segment: number, alpha: number) => `hsla(${(segment * 137.5) % 360}, 70%, 50%, ${alpha})`;
+
+const spansIn = (pieces: SegmentPiece[], space: VisualizerSpace): Span[] =>
+  pieces
+    .map(piece => ({ piece, start: space === 'original' ? piece.sourceStart : piece.outputStart }))
+    .sort((a, b) => a.start - b.start);
+
+// The span covering a sample, by binary search
+const spanAt = (spans: Span[], sample: number): Span | null => {
+  let low = 0;
+  let high = spans.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const span = spans[middle];
+    if (sample < span.start) high = middle - 1;
+    else if (sample >= span.start + span.piece.length) low = middle + 1;
+    else return span;
+  }
+  return null;
+};
+
+const formatTime = (samples: number, sampleRate: number) => `${(samples / sampleRate).toFixed(2)} s`;
+
+interface WaveformRowProps {
+  row: VisualizerRow;
+  spans: Span[];
+  highlight: number | null;
+  onHover: (span: Span | null) => void;
+  onPlay: (row: VisualizerRow, span: Span) => void;
+}
+
+const WaveformRow = ({ row, spans, highlight, onHover, onPlay }: WaveformRowProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const { waveform } = row;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    const scale = CANVAS_WIDTH / Math.max(1, waveform.length);
+
+    // Segment backgrounds, with the hovered segment brought forward
+    for (const { piece, start } of spans) {
+      const alpha = highlight === null ? 0.3 : piece.segment === highlight ? 0.8 : 0.1;
+      context.fillStyle = segmentColor(piece.segment, alpha);
+      context.fillRect(start * scale, 0, Math.max(1, piece.length * scale), CANVAS_HEIGHT);
+    }
+
+    // Lines only where the next original segment starts, not at every piece
+    context.fillStyle = 'rgba(255, 255, 255, 0.5)';
+    spans.forEach(({ piece, start }, i) => {
+      if (i > 0 && piece.segment !== spans[i - 1].piece.segment) {
+        context.fillRect(Math.floor(start * scale), 0, 1, CANVAS_HEIGHT);
+      }
+    });
+
+    context.fillStyle = '#fff';
+    const middle = CANVAS_HEIGHT / 2;
+    for (let x = 0; x < CANVAS_WIDTH; x++) {
+      const column = Math.floor((x * waveform.min.length) / CANVAS_WIDTH);
+      const top = middle - waveform.max[column] * middle;
+      const bottom = middle - waveform.min[column] * middle;
+      context.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [waveform, spans, highlight]);
+
+  const spanUnder = (event: MouseEvent<HTMLCanvasElement>): Span | null => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const sample = Math.floor(((event.clientX - bounds.left) / bounds.width) * waveform.length);
+    return spanAt(spans, sample);
+  };
+
+  return (
+    <div style={{ marginBottom: '10px' }}>
+      <div style={{ fontSize: '0.8em', color: '#ccc', marginBottom: '3px' }}>{row.label}</div>
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onMouseMove={event => onHover(spanUnder(event))}
+        onMouseLeave={() => onHover(null)}
+        onClick={(event) => {
+          const span = spanUnder(event);
+          if (span) onPlay(row, span);
+        }}
+        style={{
+          width: '100%',
+          height: `${CANVAS_HEIGHT}px`,
+          backgroundColor: 'rgba(0, 0, 0, 0.3)',
+          borderRadius: '4px',
+          cursor: spans.length > 0 && row.url ? 'pointer' : 'default'
+        }}
+      />
+    </div>
+  );
+};
+
+// Waveforms with each original segment in its own color, so the same color in
+// two rows is the same audio. Hovering a segment highlights it everywhere;
+// clicking plays it from that row.
+export const SegmentVisualizer = ({ rows, pieces }: SegmentVisualizerProps) => {
+  const [hovered, setHovered] = useState<Span | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const stopRef = useRef<number | undefined>(undefined);
+
+  const spans = useMemo(() => ({
+    original: pieces ? spansIn(pieces, 'original') : [],
+    encoded: pieces ? spansIn(pieces, 'encoded') : []
+  }), [pieces]);
+
+  useEffect(() => {
+    return () => {
+      clearTimeout(stopRef.current);
+      audioRef.current?.pause();
+    };
+  }, []);
+
+  const play = (row: VisualizerRow, span: Span) => {
+    if (!row.url) return;
+    clearTimeout(stopRef.current);
+    audioRef.current?.pause();
+
+    const audio = new Audio(row.url);
+    audioRef.current = audio;
+    audio.currentTime = span.start / row.waveform.sampleRate;
+    audio.play().catch(error => console.error('Error playing segment:', error));
+    stopRef.current = window.setTimeout(() => audio.pause(), (span.piece.length / row.waveform.sampleRate) * 1000);
+  };
+
+  const sampleRate = rows[0]?.waveform.sampleRate ?? 1;
+
+  return (
+    <div style={{ marginTop: '15px', textAlign: 'left' }}>
+      {rows.map(row => (
+        <WaveformRow
+          key={row.label}
+          row={row}
+          spans={spans[row.space]}
+          highlight={hovered?.piece.segment ?? null}
+          onHover={setHovered}
+          onPlay={play}
+        />
+      ))}
+      <div style={{ fontSize: '0.8em', color: '#ccc', minHeight: '1.2em' }}>
+        {!pieces && 'Can\'t show where each segment went: there are too many, or the channels move separately.'}
+        {hovered && (
+          `Segment ${hovered.piece.segment + 1}: ${formatTime(hovered.piece.sourceStart, sampleRate)} in the original`
+          + `${hovered.piece.reversed ? ', reversed,' : ''} is at ${formatTime(hovered.piece.outputStart, sampleRate)}`
+          + ' in the encoded audio. Click to play.'
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import { isSegmentedStage, SPEC_LIMITS } from '../engine';
+import type {
+  IntervalUnit,
+  KeystreamMode,
+  SegmentPattern,
+  SegmentedStage,
+  Segmentation,
+  Stage,
+  StageType
+} from '../engine';
+
+interface StageEditorProps {
+  stages: Stage[];
+  onChange: (stages: Stage[]) => void;
+}
+
+const { bands: BAND_LIMITS, numberOfParts: PART_LIMITS, samples: SAMPLE_LIMITS, seconds: SECOND_LIMITS } = SPEC_LIMITS;
+
+const STAGE_LABELS: Record<StageType, string> = {
+  split: 'Split',
+  oddEven: 'Odd/Even',
+  shuffle: 'Keyed Shuffle',
+  reverse: 'Reverse Audio',
+  segmentReverse: 'Reverse Segments',
+  polarity: 'Invert Polarity',
+  channelSwap: 'Swap Channels',
+  channelShuffle: 'Shuffle Each Channel',
+  midSide: 'Mid/Side',
+  bands: 'Scramble Bands (lossy)',
+  keystream: 'Keystream Noise',
+  sync: 'Sync Markers (survives MP3/Opus)'
+};
+
+// Carries the segmentation (and parts) over from the stage being replaced
+const createStage = (type: StageType, previous?: Stage): Stage => {
+  const segmentation: Segmentation = previous && isSegmentedStage(previous)
+    ? { interval: previous.interval, intervalUnit: previous.intervalUnit }
+    : { interval: 1, intervalUnit: 'seconds' };
+
+  switch (type) {
+    case 'reverse':
+      return { type };
+    case 'midSide':
+      return { type, grid: 16 };
+    case 'segmentReverse':
+    case 'channelShuffle':
+    case 'sync':
+      return { type, ...segmentation };
+    case 'polarity':
+      return { type, pattern: 'alternate', grid: 16, ...segmentation };
+    case 'channelSwap':
+      return { type, pattern: 'alternate', ...segmentation };
+    case 'bands':
+      return { type, bands: 8, invert: false, ...segmentation };
+    case 'keystream':
+      return { type, mode: 'add', grid: 16 };
+    default:
+      return {
+        type,
+        // Only split has parts; the others always say 2
+        numberOfParts: type === 'split' && previous?.type === 'split' ? previous.numberOfParts : 2,
+        ...segmentation
+      };
+  }
+};
+
+export const StageEditor = ({ stages, onChange }: StageEditorProps) => {
+  const updateStage = (index: number, stage: Stage) => {
+    onChange(stages.map((current, i) => (i === index ? stage : current)));
+  };
+
+  const changeType = (index: number, type: StageType) => {
+    updateStage(index, createStage(type, stages[index]));
+  };
+
+  // Keep a sensible value when switching units; samples assume 44.1 kHz
+  const changeIntervalUnit = (index: number, stage: SegmentedStage, unit: IntervalUnit) => {
+    if (unit === stage.intervalUnit) return;
+    const interval = unit === 'samples'
+      ? Math.max(1, Math.round(stage.interval * 44100))
+      : Math.min(SECOND_LIMITS.max, stage.interval / 44100);
+    updateStage(index, { ...stage, interval, intervalUnit: unit });
+  };
+
+  const moveStage = (index: number, offset: number) => {
+    const next = [...stages];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div style={{ marginBottom: '15px' }}>
+      {stages.map((stage, index) => (
+        <div key={index} className="stage-row">
+          <span style={{ marginRight: '10px', color: '#888' }}>{index + 1}.</span>
+          <select
+            value={stage.type}
+            onChange={(e) => changeType(index, e.target.value as StageType)}
+            style={{ padding: '5px', borderRadius: '4px' }}
+          >
+            {(Object.keys(STAGE_LABELS) as StageType[]).map(type => (
+              <option key={type} value={type}>{STAGE_LABELS[type]}</option>
+            ))}
+          </select>
+
+          {stage.type === 'split' && (
+            <label style={{ marginLeft: '10px' }}>
+              Parts:
+              <input
+                type="number"
+                min={PART_LIMITS.min}
+                max={PART_LIMITS.max}
+                step="1"
+                value={stage.numberOfParts}
+                onChange={(e) => updateStage(index, {
+                  ...stage,
+                  numberOfParts: Math.min(PART_LIMITS.max, Math.max(PART_LIMITS.min, parseInt(e.target.value) || PART_LIMITS.min))
+                })}
+                style={{ padding: '5px', borderRadius: '4px', width: '50px', marginLeft: '5px' }}
+              />
+            </label>
+          )}
+
+          {(stage.type === 'polarity' || stage.type === 'channelSwap') && (
+            <select
+              value={stage.pattern}
+              onChange={(e) => updateStage(index, { ...stage, pattern: e.target.value as SegmentPattern })}
+              style={{ padding: '5px', borderRadius: '4px', marginLeft: '10px' }}
+            >
+              <option value="alternate">every other segment</option>
+              <option value="keyed">keyed segments</option>
+            </select>
+          )}
+
+          {stage.type === 'keystream' && (
+            <select
+              value={stage.mode}
+              onChange={(e) => updateStage(index, { ...stage, mode: e.target.value as KeystreamMode })}
+              style={{ padding: '5px', borderRadius: '4px', marginLeft: '10px' }}
+            >
+              <option value="add">add</option>
+              <option value="xor">XOR</option>
+            </select>
+          )}
+
+          {stage.type === 'bands' && (
+            <>
+              <label style={{ marginLeft: '10px' }}>
+                Bands:
+                <input
+                  type="number"
+                  min={BAND_LIMITS.min}
+                  max={BAND_LIMITS.max}
+                  step="1"
+                  value={stage.bands}
+                  onChange={(e) => updateStage(index, {
+                    ...stage,
+                    bands: Math.min(BAND_LIMITS.max, Math.max(BAND_LIMITS.min, parseInt(e.target.value) || BAND_LIMITS.min))
+                  })}
+                  style={{ padding: '5px', borderRadius: '4px', width: '50px', marginLeft: '5px' }}
+                />
+              </label>
+              <label style={{ marginLeft: '10px' }}>
+                <input
+                  type="checkbox"
+                  checked={stage.invert}
+                  onChange={(e) => updateStage(index, { ...stage, invert: e.target.checked })}
+                  style={{ marginRight: '5px' }}
+                />
+                Invert
+              </label>
+            </>
+          )}
+
+          {isSegmentedStage(stage) && (
+            <label style={{ marginLeft: '10px' }}>
+              Interval:
+              <input
+                type="number"
+                min={stage.intervalUnit === 'samples' ? SAMPLE_LIMITS.min : SECOND_LIMITS.min}
+                max={stage.intervalUnit === 'samples' ? SAMPLE_LIMITS.max : SECOND_LIMITS.max}
+                step={stage.intervalUnit === 'samples' ? '1' : '0.001'}
+                value={stage.interval}
+                onChange={(e) => updateStage(index, {
+                  ...stage,
+                  interval: stage.intervalUnit === 'samples'
+                    ? parseInt(e.target.value)
+                    : parseFloat(e.target.value)
+                })}
+                style={{ padding: '5px', borderRadius: '4px', width: '80px', marginLeft: '5px' }}
+              />
+              <select
+                value={stage.intervalUnit}
+                onChange={(e) => changeIntervalUnit(index, stage, e.target.value as IntervalUnit)}
+                style={{ padding: '5px', borderRadius: '4px', marginLeft: '5px' }}
+              >
+                <option value="seconds">s</option>
+                <option value="samples">samples</option>
+              </select>
+            </label>
+          )}
+
+          {/* Later stages would scramble the markers themselves */}
+          {stage.type === 'sync' && index < stages.length - 1 && (
+            <span style={{ marginLeft: '10px', fontSize: '0.8em', color: '#ffaa00' }}>
+              only survives a lossy codec as the last stage
+            </span>
+          )}
+
+          <span style={{ marginLeft: 'auto' }}>
+            <button
+              onClick={() => moveStage(index, -1)}
+              disabled={index === 0}
+              className="stage-button"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => moveStage(index, 1)}
+              disabled={index === stages.length - 1}
+              className="stage-button"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onChange(stages.filter((_, i) => i !== index))}
+              className="stage-button"
+              title="Remove stage"
+            >
+              ×
+            </button>
+          </span>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...stages, createStage(stages.length === 0 ? 'split' : 'oddEven')])}
+        className="button"
+        style={{ marginTop: '5px' }}
+      >
+        + Add Stage
+      </button>
+    </div>
+  );
+};
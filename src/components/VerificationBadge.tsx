@@ -0,0 +1,32 @@
+import { LOSSY_PASS_SNR_DB } from '../engine';
+import type { RoundTripResult } from '../engine';
+
+interface VerificationBadgeProps {
+  result: RoundTripResult;
+}
+
+const describe = ({ passed, lossy, comparison }: RoundTripResult): string => {
+  if (!comparison) return 'The generated code doesn\'t parse back';
+  if (comparison.bitExact) return 'Decodes back bit-exact';
+  const detail = `SNR ${comparison.snrDb.toFixed(1)} dB, max error ${comparison.maxError.toFixed(4)}`;
+  if (passed) return `Decodes back within ${LOSSY_PASS_SNR_DB} dB (${detail})`;
+  return lossy ? `Decodes back too far from the source (${detail})` : `Doesn't decode back bit-exact (${detail})`;
+};
+
+export const VerificationBadge = ({ result }: VerificationBadgeProps) => {
+  const color = result.passed ? '#00ff9d' : '#ff0000';
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '10px', margin: '0 0 10px 0', fontSize: '0.9em' }}>
+      <span style={{
+        padding: '2px 8px',
+        borderRadius: '3px',
+        border: `1px solid ${color}`,
+        color,
+        fontWeight: 'bold'
+      }}>
+        {result.passed ? 'PASS' : 'FAIL'}
+      </span>
+      <span style={{ color: '#ccc' }}>{describe(result)}</span>
+    </div>
+  );
+};
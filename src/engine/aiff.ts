@@ -0,0 +1,145 @@
+import { pcmFrameCount, readPcmFrames, UnsupportedAudioError } from './samples';
+import type { PcmFileFormat, SampleEncoding } from './samples';
+import type { PcmAudio } from './types';
+
+// AIFF and AIFF-C reader. Chunks are big-endian IFF; COMM gives the format and
+// SSND holds the samples, after an offset of its own.
+
+interface AiffChunk {
+  id: string;
+  offset: number; // start of the chunk body
+  size: number;
+}
+
+const readString = (view: DataView, offset: number, length: number): string => {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return result;
+};
+
+// AIFF-C compression types that are plain samples, and how they're stored.
+// Integer sizes come from COMM; the rest have a fixed size.
+const UNCOMPRESSED: Record<string, { encoding: SampleEncoding; littleEndian: boolean; bytesPerSample?: number }> = {
+  NONE: { encoding: 'signed', littleEndian: false },
+  twos: { encoding: 'signed', littleEndian: false },
+  sowt: { encoding: 'signed', littleEndian: true },
+  'raw ': { encoding: 'unsigned', littleEndian: false },
+  fl32: { encoding: 'float', littleEndian: false, bytesPerSample: 4 },
+  FL32: { encoding: 'float', littleEndian: false, bytesPerSample: 4 },
+  fl64: { encoding: 'float', littleEndian: false, bytesPerSample: 8 },
+  FL64: { encoding: 'float', littleEndian: false, bytesPerSample: 8 },
+  alaw: { encoding: 'alaw', littleEndian: false, bytesPerSample: 1 },
+  ALAW: { encoding: 'alaw', littleEndian: false, bytesPerSample: 1 },
+  ulaw: { encoding: 'mulaw', littleEndian: false, bytesPerSample: 1 },
+  ULAW: { encoding: 'mulaw', littleEndian: false, bytesPerSample: 1 }
+};
+
+// Compressed types seen in the wild, named in the error for them
+const COMPRESSED_NAMES: Record<string, string> = {
+  ima4: 'IMA ADPCM',
+  MAC3: 'MACE 3:1',
+  MAC6: 'MACE 6:1',
+  'GSM ': 'GSM',
+  QDM2: 'QDesign',
+  Qclp: 'QCELP'
+};
+
+const isForm = (view: DataView): boolean =>
+  view.byteLength >= 12 && readString(view, 0, 4) === 'FORM' && ['AIFF', 'AIFC'].includes(readString(view, 8, 4));
+
+// Lists top-level chunks, stopping at the end of the buffer like the WAV reader
+const readChunks = (view: DataView): AiffChunk[] => {
+  const chunks: AiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, false);
+    chunks.push({ id, offset: offset + 8, size });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+// COMM stores the sample rate as an 80-bit IEEE extended float
+const readExtended = (view: DataView, offset: number): number => {
+  const signAndExponent = view.getUint16(offset, false);
+  const mantissa = view.getUint32(offset + 2, false) * 2 ** 32 + view.getUint32(offset + 6, false);
+  if (mantissa === 0) return 0;
+  const value = mantissa * 2 ** ((signAndExponent & 0x7FFF) - 16383 - 63);
+  return signAndExponent & 0x8000 ? -value : value;
+};
+
+const readAiffFormat = (view: DataView, fileSize = view.byteLength): PcmFileFormat => {
+  if (!isForm(view)) {
+    throw new Error('Not an AIFF file');
+  }
+  const compressed = readString(view, 8, 4) === 'AIFC';
+
+  let numberOfChannels = 0;
+  let frameCount = 0;
+  let sampleSize = 0;
+  let sampleRate = 0;
+  let compression = 'NONE';
+  let dataOffset = -1;
+  let dataSize = 0;
+
+  for (const chunk of readChunks(view)) {
+    if (chunk.id === 'COMM') {
+      numberOfChannels = view.getUint16(chunk.offset, false);
+      frameCount = view.getUint32(chunk.offset + 2, false);
+      sampleSize = view.getUint16(chunk.offset + 6, false);
+      sampleRate = Math.round(readExtended(view, chunk.offset + 8));
+      if (compressed && chunk.size >= 22) compression = readString(view, chunk.offset + 18, 4);
+    } else if (chunk.id === 'SSND' && chunk.offset + 8 <= view.byteLength) {
+      // Samples start after the offset and block size fields, plus the offset
+      dataOffset = chunk.offset + 8 + view.getUint32(chunk.offset, false);
+      dataSize = chunk.size - 8 - view.getUint32(chunk.offset, false);
+    }
+  }
+
+  if (!numberOfChannels || !sampleRate) throw new Error('Missing COMM chunk');
+  if (dataOffset < 0) throw new Error('Missing SSND chunk');
+  // Streaming writers can leave the size unset
+  if (dataSize <= 0) dataSize = fileSize - dataOffset;
+
+  const stored = UNCOMPRESSED[compression];
+  if (!stored) {
+    const name = COMPRESSED_NAMES[compression] ?? `"${compression.trim()}"`;
+    throw new UnsupportedAudioError(`AIFF-C files compressed with ${name} aren't supported, only uncompressed and float`);
+  }
+  if (!stored.bytesPerSample && (sampleSize < 1 || sampleSize > 32)) {
+    throw new UnsupportedAudioError(`${sampleSize}-bit AIFF isn't supported`);
+  }
+
+  const bytesPerSample = stored.bytesPerSample ?? Math.ceil(sampleSize / 8);
+  // COMM has the frame count; the SSND size can include padding
+  const dataLength = Math.min(frameCount * bytesPerSample * numberOfChannels, dataSize, fileSize - dataOffset);
+
+  return {
+    encoding: stored.encoding,
+    bytesPerSample,
+    littleEndian: stored.littleEndian,
+    numberOfChannels,
+    sampleRate,
+    dataOffset,
+    dataLength: Math.max(0, dataLength)
+  };
+};
+
+export const isAiff = (buffer: ArrayBuffer): boolean => isForm(new DataView(buffer));
+
+// Reads the format from the first bytes of a file, up to the SSND chunk header
+export const readAiffHeader = (header: ArrayBuffer, fileSize: number): PcmFileFormat =>
+  readAiffFormat(new DataView(header), fileSize);
+
+// Reads AIFF and uncompressed, float and A-law/µ-law AIFF-C
+export const decodeAiff = (buffer: ArrayBuffer): PcmAudio => {
+  const view = new DataView(buffer);
+  const format = readAiffFormat(view);
+  return {
+    sampleRate: format.sampleRate,
+    channels: readPcmFrames(view, format.dataOffset, pcmFrameCount(format), format)
+  };
+};
@@ -0,0 +1,206 @@
+import { fft } from './fft';
+import { createRandom, randomPermutation, requireKey } from './random';
+import { intervalToSamples, pcmLength } from './segments';
+import type { BandStage, PcmAudio, ProgressCallback } from './types';
+
+// MDCT filterbank with a sine window at 50% overlap. The lapped transform is
+// orthogonal, so permuted coefficients are recovered exactly on decode; the
+// loss comes from quantizing and clipping the scrambled signal when it's written.
+export const BAND_FRAME_SIZE = 1024;
+export const MIN_BANDS = 2;
+export const MAX_BANDS = 32;
+const COEFFICIENTS = BAND_FRAME_SIZE / 2;
+
+// Phase offset of the MDCT basis, n0 = 1/2 + M/2
+const PHASE_OFFSET = (1 + COEFFICIENTS) / 2;
+
+const WINDOW = Float64Array.from({ length: BAND_FRAME_SIZE }, (_, n) => Math.sin((Math.PI * (n + 0.5)) / BAND_FRAME_SIZE));
+
+// Twiddles that turn an N-point FFT into an MDCT and back
+const twiddles = (phase: (i: number) => number) => {
+  const angles = Array.from({ length: BAND_FRAME_SIZE }, (_, i) => phase(i));
+  return { re: Float64Array.from(angles, Math.cos), im: Float64Array.from(angles, Math.sin) };
+};
+const PRE_FORWARD = twiddles(n => (-Math.PI * n) / BAND_FRAME_SIZE);
+const POST_FORWARD = twiddles(k => (-Math.PI * PHASE_OFFSET * (2 * k + 1)) / BAND_FRAME_SIZE);
+const PRE_INVERSE = twiddles(k => (2 * Math.PI * PHASE_OFFSET * k) / BAND_FRAME_SIZE);
+const POST_INVERSE = twiddles(n => (Math.PI * (n + PHASE_OFFSET)) / BAND_FRAME_SIZE);
+
+interface BandMove {
+  order: number[]; // source band placed at each band position
+  flipped: boolean[]; // band positions whose coefficients run backwards
+}
+
+// One keyed band mapping per block of frames, so the scramble changes over time
+const bandMoves = (stage: BandStage, blockCount: number, key?: string): BandMove[] => {
+  const random = createRandom(requireKey(key, 'Band scrambling'));
+  return Array.from({ length: blockCount }, () => ({
+    order: randomPermutation(stage.bands, random),
+    flipped: Array.from({ length: stage.bands }, () => stage.invert && (random() & 1) === 1)
+  }));
+};
+
+// Windowed MDCT of the frame starting at `start`
+const forwardFrame = (input: Float32Array, start: number, re: Float64Array, im: Float64Array): Float64Array => {
+  for (let n = 0; n < BAND_FRAME_SIZE; n++) {
+    const sample = input[start + n] * WINDOW[n];
+    re[n] = sample * PRE_FORWARD.re[n];
+    im[n] = sample * PRE_FORWARD.im[n];
+  }
+  fft(re, im);
+
+  const coefficients = new Float64Array(COEFFICIENTS);
+  for (let k = 0; k < COEFFICIENTS; k++) {
+    coefficients[k] = re[k] * POST_FORWARD.re[k] - im[k] * POST_FORWARD.im[k];
+  }
+  return coefficients;
+};
+
+// Inverse MDCT of one frame, windowed and overlap-added into `output`
+const inverseFrame = (
+  coefficients: Float64Array,
+  output: Float64Array,
+  start: number,
+  re: Float64Array,
+  im: Float64Array
+) => {
+  re.fill(0);
+  im.fill(0);
+  for (let k = 0; k < COEFFICIENTS; k++) {
+    re[k] = coefficients[k] * PRE_INVERSE.re[k];
+    im[k] = coefficients[k] * PRE_INVERSE.im[k];
+  }
+  fft(re, im, true);
+
+  for (let n = 0; n < BAND_FRAME_SIZE; n++) {
+    const sample = re[n] * POST_INVERSE.re[n] - im[n] * POST_INVERSE.im[n];
+    output[start + n] += (2 / COEFFICIENTS) * sample * WINDOW[n];
+  }
+};
+
+// Moves coefficients between bands. The few coefficients left over
+// above the last full band stay where they are.
+const moveBands = (coefficients: Float64Array, move: BandMove, bandWidth: number, inverse: boolean): Float64Array => {
+  const result = coefficients.slice();
+  move.order.forEach((source, position) => {
+    const [from, to] = inverse ? [position, source] : [source, position];
+    for (let k = 0; k < bandWidth; k++) {
+      // A flipped band at `position` holds its source coefficients in reverse
+      const fromIndex = from * bandWidth + (inverse && move.flipped[position] ? bandWidth - 1 - k : k);
+      const toIndex = to * bandWidth + (!inverse && move.flipped[position] ? bandWidth - 1 - k : k);
+      result[toIndex] = coefficients[fromIndex];
+    }
+  });
+  return result;
+};
+
+// Everything that stays fixed across a file: the keyed moves, and how frames
+// and coefficients group into blocks and bands
+export interface BandPlan {
+  moves: BandMove[];
+  framesPerBlock: number;
+  frameCount: number; // whole hops; the frames wrap around after this many
+  bandWidth: number;
+}
+
+export const bandPlan = (
+  stage: BandStage,
+  length: number,
+  sampleRate: number,
+  numberOfChannels: number,
+  key?: string
+): BandPlan => {
+  const blockSamples = intervalToSamples(stage.interval, stage.intervalUnit, sampleRate, numberOfChannels);
+  const framesPerBlock = Math.max(1, Math.round(blockSamples / COEFFICIENTS));
+  const frameCount = Math.floor(length / COEFFICIENTS);
+  return {
+    moves: bandMoves(stage, Math.max(1, Math.ceil(frameCount / framesPerBlock)), key),
+    framesPerBlock,
+    frameCount,
+    bandWidth: Math.floor(COEFFICIENTS / stage.bands)
+  };
+};
+
+// Frames wrap around the end of the audio, which keeps the transform
+// orthogonal without changing the length. Samples past the last whole hop,
+// and audio shorter than two hops, pass through unchanged.
+export const scrambledLength = (plan: BandPlan): number =>
+  plan.frameCount < 2 ? 0 : plan.frameCount * COEFFICIENTS;
+
+// Frames that contribute to output samples [start, end), and the input they
+// read, in unwrapped positions. Frame -1 is the last frame wrapped around.
+export const bandSpan = (start: number, end: number) => {
+  const firstFrame = Math.floor(start / COEFFICIENTS) - 1;
+  const lastFrame = Math.floor((end - 1) / COEFFICIENTS);
+  return { firstFrame, lastFrame, from: firstFrame * COEFFICIENTS, to: (lastFrame + 2) * COEFFICIENTS };
+};
+
+// Runs frames firstFrame..lastFrame over `span`, the input from bandSpan's
+// `from` to `to`, and returns their overlap-added output at the same positions
+export const scrambleSpan = (
+  span: Float32Array,
+  firstFrame: number,
+  lastFrame: number,
+  plan: BandPlan,
+  inverse: boolean,
+  onProgress?: ProgressCallback
+): Float64Array => {
+  const output = new Float64Array(span.length);
+  const re = new Float64Array(BAND_FRAME_SIZE);
+  const im = new Float64Array(BAND_FRAME_SIZE);
+
+  for (let frame = firstFrame; frame <= lastFrame; frame++) {
+    const start = (frame - firstFrame) * COEFFICIENTS;
+    const wrapped = (frame + plan.frameCount) % plan.frameCount;
+    const coefficients = forwardFrame(span, start, re, im);
+    const moved = moveBands(coefficients, plan.moves[Math.floor(wrapped / plan.framesPerBlock)], plan.bandWidth, inverse);
+    inverseFrame(moved, output, start, re, im);
+    onProgress?.((frame - firstFrame + 1) / (lastFrame - firstFrame + 1));
+  }
+  return output;
+};
+
+const scrambleChannel = (
+  input: Float32Array,
+  plan: BandPlan,
+  inverse: boolean,
+  onProgress?: ProgressCallback
+): Float32Array => {
+  const length = scrambledLength(plan);
+  const result = input.slice();
+  if (length === 0) return result;
+
+  const { firstFrame, lastFrame, from, to } = bandSpan(0, length);
+  const span = new Float32Array(to - from);
+  for (let i = 0; i < span.length; i++) {
+    span[i] = input[(from + i + length) % length];
+  }
+
+  const output = scrambleSpan(span, firstFrame, lastFrame, plan, inverse, onProgress);
+  result.set(output.subarray(-from, -from + length));
+  return result;
+};
+
+const scrambleBands = (
+  pcm: PcmAudio,
+  stage: BandStage,
+  key: string | undefined,
+  inverse: boolean,
+  onProgress?: ProgressCallback
+): PcmAudio => {
+  const plan = bandPlan(stage, pcmLength(pcm), pcm.sampleRate, pcm.channels.length, key);
+
+  return {
+    sampleRate: pcm.sampleRate,
+    channels: pcm.channels.map((channel, index) => {
+      const channelProgress = onProgress && ((fraction: number) => onProgress((index + fraction) / pcm.channels.length));
+      return scrambleChannel(channel, plan, inverse, channelProgress);
+    })
+  };
+};
+
+export const encodeBands = (pcm: PcmAudio, stage: BandStage, key?: string, onProgress?: ProgressCallback): PcmAudio =>
+  scrambleBands(pcm, stage, key, false, onProgress);
+
+export const decodeBands = (pcm: PcmAudio, stage: BandStage, key?: string, onProgress?: ProgressCallback): PcmAudio =>
+  scrambleBands(pcm, stage, key, true, onProgress);
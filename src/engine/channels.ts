@@ -0,0 +1,103 @@
+import { createRandom, randomPermutation, requireKey, selectSegments } from './random';
+import { reorderPcm, restorePcm } from './reorder';
+import { segmentLayout, toGrid, wrapGrid } from './segments';
+import type { ChannelShuffleStage, ChannelSwapStage, PcmAudio, ReorderStage, SampleGrid } from './types';
+
+// Channel order for every segment. Alternate reverses the channel order of every
+// other segment (an L/R swap for stereo); keyed draws a permutation per segment.
+export const channelOrders = (stage: ChannelSwapStage, segmentCount: number, channelCount: number, key?: string) => {
+  const identity = Array.from({ length: channelCount }, (_, i) => i);
+  if (stage.pattern === 'alternate') {
+    const swapped = selectSegments('alternate', segmentCount, key, 'Channel swap');
+    return swapped.map(swap => (swap ? [...identity].reverse() : identity));
+  }
+  const random = createRandom(requireKey(key, 'Keyed channel swap'));
+  return Array.from({ length: segmentCount }, () => randomPermutation(channelCount, random));
+};
+
+export const swapChannels = (pcm: PcmAudio, stage: ChannelSwapStage, key: string | undefined, inverse: boolean) => {
+  const lengths = segmentLayout(pcm, stage);
+  const channelCount = pcm.channels.length;
+  const orders = channelOrders(stage, lengths.length, channelCount, key);
+  const channels = pcm.channels.map(channel => new Float32Array(channel.length));
+
+  let start = 0;
+  lengths.forEach((length, index) => {
+    const end = start + length;
+    orders[index].forEach((source, target) => {
+      // Encoding moves channel `source` to `target`; decoding moves it back
+      const [from, to] = inverse ? [target, source] : [source, target];
+      channels[to].set(pcm.channels[from].subarray(start, end), start);
+    });
+    start = end;
+  });
+
+  return { sampleRate: pcm.sampleRate, channels };
+};
+
+// Runs a keyed shuffle on each channel on its own, with a per-channel key
+const shuffleEachChannel = (
+  pcm: PcmAudio,
+  stage: ChannelShuffleStage,
+  key: string | undefined,
+  run: typeof reorderPcm
+): PcmAudio => {
+  // Validates the interval against the full channel count
+  segmentLayout(pcm, stage);
+  const channelKey = requireKey(key, 'Channel shuffle');
+  const shuffle: ReorderStage = {
+    type: 'shuffle',
+    numberOfParts: 2,
+    interval: stage.interval,
+    intervalUnit: stage.intervalUnit
+  };
+
+  return {
+    sampleRate: pcm.sampleRate,
+    channels: pcm.channels.map((channel, index) =>
+      run({ sampleRate: pcm.sampleRate, channels: [channel] }, shuffle, `${channelKey}#${index}`).channels[0]
+    )
+  };
+};
+
+export const encodeChannelShuffle = (pcm: PcmAudio, stage: ChannelShuffleStage, key?: string) =>
+  shuffleEachChannel(pcm, stage, key, reorderPcm);
+
+export const decodeChannelShuffle = (pcm: PcmAudio, stage: ChannelShuffleStage, key?: string) =>
+  shuffleEachChannel(pcm, stage, key, restorePcm);
+
+// Mid/side runs on the integer grid of the output file with lifting steps, which
+// are exactly invertible: side = R - L, mid = L + side / 2, both wrapped to the grid.
+// Extra channels beyond the first two pass through untouched.
+
+const liftStereo = (
+  pcm: PcmAudio,
+  grid: SampleGrid,
+  lift: (a: number, b: number) => [number, number]
+): PcmAudio => {
+  if (pcm.channels.length < 2) return pcm;
+
+  const scale = 2 ** (grid - 1);
+  const [first, second, ...rest] = pcm.channels;
+  const outFirst = new Float32Array(first.length);
+  const outSecond = new Float32Array(second.length);
+  for (let i = 0; i < first.length; i++) {
+    const [a, b] = lift(toGrid(first[i], grid), toGrid(second[i], grid));
+    outFirst[i] = a / scale;
+    outSecond[i] = b / scale;
+  }
+
+  return { sampleRate: pcm.sampleRate, channels: [outFirst, outSecond, ...rest] };
+};
+
+export const toMidSide = (pcm: PcmAudio, grid: SampleGrid): PcmAudio =>
+  liftStereo(pcm, grid, (left, right) => {
+    const side = wrapGrid(right - left, grid);
+    return [wrapGrid(left + (side >> 1), grid), side];
+  });
+
+export const fromMidSide = (pcm: PcmAudio, grid: SampleGrid): PcmAudio =>
+  liftStereo(pcm, grid, (mid, side) => {
+    const left = wrapGrid(mid - (side >> 1), grid);
+    return [left, wrapGrid(side + left, grid)];
+  });
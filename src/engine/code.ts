@@ -0,0 +1,417 @@
+import { MAX_BANDS, MIN_BANDS } from './bands';
+import { MAX_SEGMENT_SIZE } from './segments';
+import { isReorderStage, isSegmentedStage } from './stages';
+import type {
+  EncodingSpec,
+  EncodingType,
+  IntervalUnit,
+  KeystreamMode,
+  SampleGrid,
+  SegmentPattern,
+  ReorderStage,
+  Segmentation,
+  Stage,
+  StageType,
+  TimeRange
+} from './types';
+
+// Codes start with the version of their grammar, `v1:`. Codes without one are
+// read as version 1, which covers everything written before versions existed.
+//
+// Single-stage codes look like `sb5b0.2t`: type prefix, parts, interval, reverse
+// flag, separated by 'b'. Odd/even and shuffle have no parts field (`oebb1f`,
+// `shbb0.5t`). An interval ending in 'n' is a sample count (`sb5b8820nt`).
+//
+// Longer pipelines join one token per stage with '-', e.g.
+// `s4b0.5-oeb0.05-r-shb0.1`: split(4, 0.5s), oddEven(0.05s), reverse, shuffle(0.1s).
+// Per-segment transforms: `rvb0.1` reverses each segment, `pab0.1` / `pkb0.1`
+// invert the polarity of alternating / keyed segments.
+// Channel stages: `xab0.1` / `xkb0.1` swap channels on alternating / keyed
+// segments, `chb0.1` shuffles each channel independently, `ms` converts to mid/side.
+// Band scrambling: `fq8b0.5` permutes 8 frequency bands with a new mapping every
+// 0.5s; `fq8ib0.5` also flips bands upside down.
+// Keystream: `ksa` adds keyed noise to every sample, `ksx` XORs it.
+// Polarity, mid/side and keystream work on 16-bit integers; `pa24b0.1`, `ms24`,
+// `ksa24` and so on work on 24-bit ones, for files written at 24 bits or more.
+// Sync markers: `syb0.5` frames every 0.5s segment so decode survives lossy codecs.
+// Keys are never part of the code.
+//
+// Partial encodes end in `@` and the ranges in seconds, e.g. `sb5b0.2t@1.5_4,10_12`
+// only scrambles 1.5–4 s and 10–12 s.
+//
+// Every valid spec serializes to exactly one code, and parsing that code gives
+// the same spec back.
+
+export const CODE_VERSION = 1;
+
+// What each number in a spec may be
+export interface AllowedRange {
+  min: number;
+  max: number;
+  unit?: string;
+  integer?: boolean;
+}
+
+export const SPEC_LIMITS = {
+  numberOfParts: { min: 2, max: 10, integer: true },
+  seconds: { min: 0.001, max: 10, unit: 'seconds' },
+  samples: { min: 1, max: MAX_SEGMENT_SIZE, unit: 'samples', integer: true },
+  bands: { min: MIN_BANDS, max: MAX_BANDS, integer: true }
+} satisfies Record<string, AllowedRange>;
+
+// The part of a spec, or of its code, that an error is about
+export type CodeField = 'version' | 'stage' | 'numberOfParts' | 'interval' | 'bands' | 'grid' | 'reverse' | 'ranges';
+
+interface CodeErrorContext {
+  stage?: number; // index of the stage, from 0
+  token?: string; // the stage's part of the code
+  allowed?: AllowedRange;
+}
+
+// Says which field is wrong and why, and for numbers what they may be
+export class EncodingCodeError extends Error {
+  field: CodeField;
+  reason: string;
+  stage?: number;
+  token?: string;
+  allowed?: AllowedRange;
+
+  constructor(field: CodeField, reason: string, context: CodeErrorContext = {}) {
+    const where = context.stage === undefined
+      ? field === 'ranges' ? 'Ranges: ' : ''
+      : `Stage ${context.stage + 1}${context.token ? ` ("${context.token}")` : ''}: `;
+    super(`${where}${reason}`);
+    this.name = 'EncodingCodeError';
+    this.field = field;
+    this.reason = reason;
+    this.stage = context.stage;
+    this.token = context.token;
+    this.allowed = context.allowed;
+  }
+}
+
+export type ParsedCode =
+  | { ok: true; spec: EncodingSpec }
+  | { ok: false; error: EncodingCodeError };
+
+const TYPE_PREFIXES: Record<EncodingType, string> = {
+  split: 's',
+  oddEven: 'oe',
+  shuffle: 'sh'
+};
+
+const PREFIX_TYPES: Record<string, EncodingType> = {
+  s: 'split',
+  oe: 'oddEven',
+  sh: 'shuffle'
+};
+
+const POLARITY_PREFIXES: Record<SegmentPattern, string> = {
+  alternate: 'pa',
+  keyed: 'pk'
+};
+
+const CHANNEL_SWAP_PREFIXES: Record<SegmentPattern, string> = {
+  alternate: 'xa',
+  keyed: 'xk'
+};
+
+const KEYSTREAM_TOKENS: Record<KeystreamMode, string> = {
+  add: 'ksa',
+  xor: 'ksx'
+};
+
+const SAMPLE_GRIDS: Record<SampleGrid, true> = {
+  16: true,
+  24: true
+};
+
+const STAGE_SEPARATOR = '-';
+const RANGES_SEPARATOR = '@';
+
+// Every stage type, so a spec from elsewhere can be checked
+const STAGE_TYPES: Record<StageType, true> = {
+  split: true,
+  oddEven: true,
+  shuffle: true,
+  reverse: true,
+  segmentReverse: true,
+  polarity: true,
+  channelSwap: true,
+  channelShuffle: true,
+  midSide: true,
+  bands: true,
+  keystream: true,
+  sync: true
+};
+
+const describeAllowed = (allowed: AllowedRange): string =>
+  `${allowed.integer ? 'a whole number ' : ''}from ${allowed.min} to ${allowed.max}${allowed.unit ? ` ${allowed.unit}` : ''}`;
+
+const checkNumber = (field: CodeField, label: string, value: number, allowed: AllowedRange, context: CodeErrorContext) => {
+  const inRange = Number.isFinite(value) && value >= allowed.min && value <= allowed.max;
+  if (!inRange || (allowed.integer && !Number.isInteger(value))) {
+    throw new EncodingCodeError(field, `${label} must be ${describeAllowed(allowed)}, not ${value}`, { ...context, allowed });
+  }
+};
+
+const intervalLimits = (unit: IntervalUnit): AllowedRange => SPEC_LIMITS[unit];
+
+// The checks parsing and serializing share, on a stage's values
+const checkStage = (stage: Stage, context: CodeErrorContext) => {
+  if (STAGE_TYPES[stage.type] !== true) {
+    throw new EncodingCodeError('stage', `"${stage.type}" isn't a stage type`, context);
+  }
+  if (isReorderStage(stage)) {
+    if (stage.type === 'split') {
+      checkNumber('numberOfParts', 'The number of parts', stage.numberOfParts, SPEC_LIMITS.numberOfParts, context);
+    } else if (stage.numberOfParts !== 2) {
+      throw new EncodingCodeError('numberOfParts', 'Only split has a number of parts; leave it at 2', context);
+    }
+  }
+  if (isSegmentedStage(stage)) {
+    if (stage.intervalUnit !== 'seconds' && stage.intervalUnit !== 'samples') {
+      throw new EncodingCodeError('interval', `"${stage.intervalUnit}" isn't an interval unit`, context);
+    }
+    checkNumber('interval', 'The interval', stage.interval, intervalLimits(stage.intervalUnit), context);
+  }
+  if (stage.type === 'bands') {
+    checkNumber('bands', 'The number of bands', stage.bands, SPEC_LIMITS.bands, context);
+  }
+  if ('grid' in stage && SAMPLE_GRIDS[stage.grid] !== true) {
+    throw new EncodingCodeError('grid', `The sample grid must be 16 or 24 bits, not ${stage.grid}`, context);
+  }
+};
+
+const checkRanges = (ranges: TimeRange[]) => {
+  if (ranges.length === 0) {
+    throw new EncodingCodeError('ranges', 'List at least one range, or leave ranges out to scramble everything');
+  }
+  ranges.forEach((range, index) => {
+    const label = `range ${index + 1} (${range.start}–${range.end} s)`;
+    if (!Number.isFinite(range.start) || !Number.isFinite(range.end) || range.start < 0) {
+      throw new EncodingCodeError('ranges', `${label} must be in seconds from 0`);
+    }
+    if (range.start >= range.end) {
+      throw new EncodingCodeError('ranges', `${label} must end after it starts`);
+    }
+    if (index > 0 && ranges[index - 1].end > range.start) {
+      throw new EncodingCodeError('ranges', `${label} must start after range ${index} ends`);
+    }
+  });
+};
+
+const checkSpec = (spec: EncodingSpec) => {
+  if (spec.stages.length === 0) throw new EncodingCodeError('stage', 'Add at least one stage');
+  spec.stages.forEach((stage, index) => checkStage(stage, { stage: index }));
+  if (spec.ranges) checkRanges(spec.ranges);
+};
+
+// Why the spec can't be encoded or serialized, or null when it can
+export const validateSpec = (spec: EncodingSpec): EncodingCodeError | null => {
+  try {
+    checkSpec(spec);
+    return null;
+  } catch (error) {
+    if (error instanceof EncodingCodeError) return error;
+    throw error;
+  }
+};
+
+const intervalCode = (stage: Segmentation): string =>
+  `${stage.interval}${stage.intervalUnit === 'samples' ? 'n' : ''}`;
+
+const isLegacyShape = (stages: Stage[]): boolean =>
+  stages.length > 0
+  && stages.length <= 2
+  && isReorderStage(stages[0])
+  && (stages.length === 1 || stages[1].type === 'reverse');
+
+const generateLegacyCode = (stage: ReorderStage, reversed: boolean): string => {
+  const typePrefix = TYPE_PREFIXES[stage.type];
+  const partsCode = stage.type === 'split' ? `b${stage.numberOfParts}` : 'b';
+  const reverseCode = reversed ? 't' : 'f';
+
+  return `${typePrefix}${partsCode}b${intervalCode(stage)}${reverseCode}`;
+};
+
+// 16 bits is the default and isn't written
+const gridCode = (grid: SampleGrid): string => (grid === 16 ? '' : `${grid}`);
+
+const generateStageToken = (stage: Stage): string => {
+  if (stage.type === 'reverse') return 'r';
+  if (stage.type === 'midSide') return `ms${gridCode(stage.grid)}`;
+  if (stage.type === 'keystream') return `${KEYSTREAM_TOKENS[stage.mode]}${gridCode(stage.grid)}`;
+  if (stage.type === 'segmentReverse') return `rvb${intervalCode(stage)}`;
+  if (stage.type === 'channelShuffle') return `chb${intervalCode(stage)}`;
+  if (stage.type === 'sync') return `syb${intervalCode(stage)}`;
+  if (stage.type === 'polarity') return `${POLARITY_PREFIXES[stage.pattern]}${gridCode(stage.grid)}b${intervalCode(stage)}`;
+  if (stage.type === 'channelSwap') return `${CHANNEL_SWAP_PREFIXES[stage.pattern]}b${intervalCode(stage)}`;
+  if (stage.type === 'bands') return `fq${stage.bands}${stage.invert ? 'i' : ''}b${intervalCode(stage)}`;
+  const parts = stage.type === 'split' ? stage.numberOfParts : '';
+  return `${TYPE_PREFIXES[stage.type]}${parts}b${intervalCode(stage)}`;
+};
+
+const generateRangesCode = (ranges: TimeRange[]): string =>
+  ranges.map(range => `${range.start}_${range.end}`).join(',');
+
+// The spec's code. Throws an EncodingCodeError for a spec validateSpec rejects.
+export const serializeSpec = (spec: EncodingSpec): string => {
+  checkSpec(spec);
+  const { stages, ranges } = spec;
+  // Keep the original short form wherever it can express the pipeline
+  const code = isLegacyShape(stages)
+    ? generateLegacyCode(stages[0] as ReorderStage, stages.length === 2)
+    : stages.map(generateStageToken).join(STAGE_SEPARATOR);
+  const rangesCode = ranges ? `${RANGES_SEPARATOR}${generateRangesCode(ranges)}` : '';
+  return `v${CODE_VERSION}:${code}${rangesCode}`;
+};
+
+const parseInterval = (code: string, context: CodeErrorContext): Segmentation => {
+  const samples = /^(\d+)n$/.exec(code);
+  if (samples) return { interval: parseInt(samples[1]), intervalUnit: 'samples' };
+  if (/^\d*\.?\d+$/.test(code)) return { interval: parseFloat(code), intervalUnit: 'seconds' };
+  throw new EncodingCodeError(
+    'interval',
+    `The interval "${code}" must be seconds, like 0.5, or a sample count ending in n, like 8820n`,
+    context
+  );
+};
+
+const parseParts = (code: string, context: CodeErrorContext): number => {
+  if (!/^\d+$/.test(code)) {
+    throw new EncodingCodeError('numberOfParts', `Split needs its number of parts (${describeAllowed(SPEC_LIMITS.numberOfParts)})`, {
+      ...context,
+      allowed: SPEC_LIMITS.numberOfParts
+    });
+  }
+  return parseInt(code);
+};
+
+// Odd/even and shuffle always have 2, which the code doesn't spell out
+const parseReorder = (type: EncodingType, partsCode: string, intervalCode: string, context: CodeErrorContext): ReorderStage => {
+  if (type !== 'split' && partsCode !== '') {
+    throw new EncodingCodeError('numberOfParts', 'Only split has a number of parts', context);
+  }
+  const numberOfParts = type === 'split' ? parseParts(partsCode, context) : 2;
+  return { type, numberOfParts, ...parseInterval(intervalCode, context) };
+};
+
+// `sb5b0.2t`, `oebb1f`: the whole code is one reorder and a reverse flag
+const parseLegacyCode = (code: string): Stage[] | null => {
+  const match = code.includes(STAGE_SEPARATOR) ? null : /^(s|oe|sh)b(\d*)b(.*)$/.exec(code);
+  if (!match) return null;
+  const [, prefix, partsCode, rest] = match;
+  const context = { stage: 0, token: code };
+
+  const reverse = rest.slice(-1);
+  if (reverse !== 't' && reverse !== 'f') {
+    throw new EncodingCodeError('reverse', 'A short code ends in t or f, for whether it reverses the audio', context);
+  }
+  const stage = parseReorder(PREFIX_TYPES[prefix], partsCode, rest.slice(0, -1), context);
+  checkStage(stage, context);
+  return reverse === 't' ? [stage, { type: 'reverse' }] : [stage];
+};
+
+const parseStageToken = (token: string, context: CodeErrorContext): Stage => {
+  if (token === 'r') return { type: 'reverse' };
+
+  const integer = /^(ms|ksa|ksx)(24)?$/.exec(token);
+  if (integer) {
+    const grid: SampleGrid = integer[2] ? 24 : 16;
+    if (integer[1] === 'ms') return { type: 'midSide', grid };
+    return { type: 'keystream', mode: integer[1] === KEYSTREAM_TOKENS.add ? 'add' : 'xor', grid };
+  }
+
+  const polarity = /^(pa|pk)(24)?b(.*)$/.exec(token);
+  if (polarity) {
+    const pattern: SegmentPattern = polarity[1] === POLARITY_PREFIXES.alternate ? 'alternate' : 'keyed';
+    return { type: 'polarity', pattern, grid: polarity[2] ? 24 : 16, ...parseInterval(polarity[3], context) };
+  }
+
+  const transform = /^(rv|ch|sy|xa|xk)b(.*)$/.exec(token);
+  if (transform) {
+    const [, prefix, intervalStr] = transform;
+    const interval = parseInterval(intervalStr, context);
+    if (prefix === 'rv') return { type: 'segmentReverse', ...interval };
+    if (prefix === 'ch') return { type: 'channelShuffle', ...interval };
+    if (prefix === 'sy') return { type: 'sync', ...interval };
+
+    const pattern: SegmentPattern = prefix.endsWith('a') ? 'alternate' : 'keyed';
+    return { type: 'channelSwap', pattern, ...interval };
+  }
+
+  const bands = /^fq(\d*)(i?)b(.*)$/.exec(token);
+  if (bands) {
+    if (bands[1] === '') {
+      throw new EncodingCodeError('bands', `Band scrambling needs its number of bands (${describeAllowed(SPEC_LIMITS.bands)})`, {
+        ...context,
+        allowed: SPEC_LIMITS.bands
+      });
+    }
+    return { type: 'bands', bands: parseInt(bands[1]), invert: bands[2] === 'i', ...parseInterval(bands[3], context) };
+  }
+
+  const reorder = /^(s|oe|sh)(\d*)b(.*)$/.exec(token);
+  if (reorder) return parseReorder(PREFIX_TYPES[reorder[1]], reorder[2], reorder[3], context);
+
+  throw new EncodingCodeError('stage', `"${token}" isn't a stage`, context);
+};
+
+const parseStages = (code: string): Stage[] => {
+  if (code === '') throw new EncodingCodeError('stage', 'The code has no stages');
+  const legacy = parseLegacyCode(code);
+  if (legacy) return legacy;
+
+  return code.split(STAGE_SEPARATOR).map((token, index) => {
+    const context = { stage: index, token };
+    const stage = parseStageToken(token, context);
+    checkStage(stage, context);
+    return stage;
+  });
+};
+
+// Seconds as String() writes them, which can use an exponent
+const TIME_PATTERN = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/;
+
+const parseRanges = (code: string): TimeRange[] => {
+  const ranges = code.split(',').map((token, index) => {
+    const [start, end, ...rest] = token.split('_');
+    if (rest.length > 0 || !TIME_PATTERN.test(start ?? '') || !TIME_PATTERN.test(end ?? '')) {
+      throw new EncodingCodeError('ranges', `range ${index + 1} ("${token}") must be start_end in seconds, like 1.5_4`);
+    }
+    return { start: parseFloat(start), end: parseFloat(end) };
+  });
+  checkRanges(ranges);
+  return ranges;
+};
+
+const parseVersion = (code: string): { version: number; body: string } => {
+  const match = /^v([^:]*):(.*)$/.exec(code);
+  if (!match) return { version: 1, body: code };
+  const version = /^\d+$/.test(match[1]) ? parseInt(match[1]) : NaN;
+  const allowed = { min: 1, max: CODE_VERSION, integer: true };
+  if (!(version >= 1)) {
+    throw new EncodingCodeError('version', `"v${match[1]}:" isn't a code version`, { allowed });
+  }
+  if (version > CODE_VERSION) {
+    throw new EncodingCodeError('version', `This is a version ${version} code; this version reads codes up to version ${CODE_VERSION}`, { allowed });
+  }
+  return { version, body: match[2] };
+};
+
+export const parseSpec = (code: string): ParsedCode => {
+  try {
+    const { body } = parseVersion(code.trim());
+    const [stagesCode, rangesCode, ...rest] = body.split(RANGES_SEPARATOR);
+    if (rest.length > 0) {
+      throw new EncodingCodeError('ranges', `A code has at most one ${RANGES_SEPARATOR}, before its ranges`);
+    }
+    const stages = parseStages(stagesCode);
+    const spec: EncodingSpec = rangesCode === undefined ? { stages } : { stages, ranges: parseRanges(rangesCode) };
+    return { ok: true, spec };
+  } catch (error) {
+    if (error instanceof EncodingCodeError) return { ok: false, error };
+    throw error;
+  }
+};
@@ -0,0 +1,37 @@
+import { pcmLength } from './segments';
+import type { PcmAudio } from './types';
+
+export interface AudioComparison {
+  bitExact: boolean;
+  maxError: number; // largest absolute sample difference
+  snrDb: number; // Infinity when identical
+}
+
+// Compares a decoded result with the source. Samples missing from either side count as errors.
+export const compareAudio = (reference: PcmAudio, test: PcmAudio): AudioComparison => {
+  const length = Math.max(pcmLength(reference), pcmLength(test));
+  const channelCount = Math.max(reference.channels.length, test.channels.length);
+  let bitExact = reference.sampleRate === test.sampleRate && pcmLength(reference) === pcmLength(test);
+  let maxError = 0;
+  let signal = 0;
+  let noise = 0;
+
+  for (let channel = 0; channel < channelCount; channel++) {
+    const a = reference.channels[channel];
+    const b = test.channels[channel];
+    if (!a || !b) bitExact = false;
+
+    for (let i = 0; i < length; i++) {
+      const expected = a?.[i] ?? 0;
+      const actual = b?.[i] ?? 0;
+      const error = Math.abs(expected - actual);
+      if (error > 0) bitExact = false;
+      if (error > maxError) maxError = error;
+      signal += expected * expected;
+      noise += error * error;
+    }
+  }
+
+  const snrDb = noise === 0 ? Infinity : 10 * Math.log10(signal / noise);
+  return { bitExact, maxError, snrDb };
+};
@@ -0,0 +1,317 @@
+import { serializeSpec, SPEC_LIMITS } from './code';
+import { fft } from './fft';
+import { reorderForEncode } from './reorder';
+import { MAX_SEGMENT_SIZE, pcmLength, segmentLengths } from './segments';
+import type { EncodingSpec, IntervalUnit, PcmAudio, ProgressCallback, ReorderStage, Stage } from './types';
+
+// Recovers a lost split/oddEven code from the encoded audio alone. Segment
+// boundaries show up as jumps the surrounding audio doesn't predict, so the
+// segment length comes from where those jumps line up. Each reordering is then
+// scored by how smoothly it would join the segments back together, both
+// sample to sample and in the short-term spectrum across each join.
+
+export interface CodeEstimate {
+  code: string;
+  spec: EncodingSpec;
+  confidence: number; // 0 to 1, shared between candidates that fit equally well
+  smoothness: number; // 1 when joins are as smooth as unbroken audio, 0 when no better than the file as-is
+}
+
+export interface EstimateOptions {
+  maxResults?: number;
+  onProgress?: ProgressCallback;
+}
+
+const MIN_SEGMENT = 32;
+// A grid has to hit this many jumps to count; with hundreds of thousands of
+// lengths tried, a few hits land by chance on any audio with sharp onsets
+const MIN_BOUNDARIES = 8;
+const MAX_PARTS = 10;
+const LEVEL_RADIUS = 32; // samples either side used to judge how rough the audio is locally
+const JUMP_RATIO = 6; // a second difference this many times the local average counts as a jump
+const MIN_COMB_SCORE = 4; // below this a grid of jumps is indistinguishable from chance
+const MAX_INTERVALS = 3;
+const MAX_JOINS = 2000; // joins scored per candidate, spread evenly over the file
+const MAX_SPECTRUM = 256;
+const MIN_CONTRAST = 0.1; // keeps smoothness meaningful where there are no boundaries to find
+const CONFIDENCE_TEMPERATURE = 0.05;
+const ENVELOPE_FRAME = 0.01; // seconds
+const DIRECTION_WEIGHT = 1; // how far the time direction can tip a tie on the reverse flag
+
+const mixdown = (pcm: PcmAudio): Float32Array => {
+  const mono = new Float32Array(pcmLength(pcm));
+  for (const channel of pcm.channels) {
+    for (let i = 0; i < mono.length; i++) {
+      mono[i] += channel[i] / pcm.channels.length;
+    }
+  }
+  return mono;
+};
+
+// Second difference: the error of predicting each sample from the two before it
+const roughness = (mono: Float32Array): Float32Array => {
+  const d = new Float32Array(mono.length);
+  for (let i = 2; i < mono.length; i++) {
+    d[i] = Math.abs(mono[i] - 2 * mono[i - 1] + mono[i - 2]);
+  }
+  return d;
+};
+
+// How far above its surroundings the second difference at each sample stands
+const jumpRatios = (d: Float32Array): Float32Array => {
+  const n = d.length;
+  const prefix = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + d[i];
+
+  const ratios = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const from = Math.max(0, i - LEVEL_RADIUS);
+    const to = Math.min(n, i + LEVEL_RADIUS + 1);
+    ratios[i] = d[i] / ((prefix[to] - prefix[from]) / (to - from) + 1e-9);
+  }
+  return ratios;
+};
+
+// How many more jumps than chance land on a grid every `length` samples, as a
+// z-score, counting from the start or, for reversed files, from the end. Dense
+// grids that keep hitting jumps outscore sparse ones that hit a few by luck.
+const combScores = (ratios: Float32Array, minLength: number, maxLength: number, onProgress?: ProgressCallback) => {
+  const n = ratios.length;
+  const jumps = new Uint8Array(n);
+  let jumpCount = 0;
+  for (let i = 0; i < n; i++) {
+    if (ratios[i] > JUMP_RATIO) {
+      jumps[i] = 1;
+      jumpCount++;
+    }
+  }
+  const chance = Math.max(jumpCount / n, 1 / n);
+
+  const scores = new Float64Array(maxLength + 1);
+  for (let length = minLength; length <= maxLength; length++) {
+    let fromStart = 0;
+    let fromEnd = 0;
+    let count = 0;
+    for (let position = length; position < n; position += length) {
+      fromStart += jumps[position];
+      fromEnd += jumps[n - position];
+      count++;
+    }
+    const hits = Math.max(fromStart, fromEnd);
+    const expected = count * chance;
+    scores[length] = hits < MIN_BOUNDARIES ? 0 : (hits - expected) / Math.sqrt(expected * (1 - chance));
+    if (length % 256 === 0) onProgress?.((length - minLength) / (maxLength - minLength + 1));
+  }
+  return scores;
+};
+
+// Multiples of the segment length hit a subset of the same boundaries and
+// halves hit only every other one, so the true length peaks. Take the next
+// best lengths too, skipping multiples of ones already taken.
+const likelyLengths = (scores: Float64Array, minLength: number): number[] => {
+  const candidates = Array.from({ length: scores.length - minLength }, (_, i) => i + minLength)
+    .sort((a, b) => scores[b] - scores[a]);
+
+  const lengths: number[] = [];
+  for (const length of candidates) {
+    if (lengths.length === MAX_INTERVALS || scores[length] < MIN_COMB_SCORE) break;
+    if (!lengths.some(taken => length % taken === 0 || taken % length === 0)) lengths.push(length);
+  }
+  return lengths;
+};
+
+// Log magnitude spectrum of a Hann-windowed slice, cached by position
+const spectrumCache = (stream: Float32Array, size: number) => {
+  const cache = new Map<number, Float64Array>();
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+
+  return (start: number): Float64Array => {
+    const cached = cache.get(start);
+    if (cached) return cached;
+    for (let i = 0; i < size; i++) {
+      re[i] = stream[start + i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size));
+      im[i] = 0;
+    }
+    fft(re, im);
+    const spectrum = new Float64Array(size / 2);
+    for (let k = 0; k < spectrum.length; k++) {
+      spectrum[k] = Math.log(1e-6 + Math.hypot(re[k], im[k]));
+    }
+    cache.set(start, spectrum);
+    return spectrum;
+  };
+};
+
+// How badly the audio ending just before `tail` continues into the audio at `head`
+const joinCost = (
+  stream: Float32Array,
+  tail: number,
+  head: number,
+  size: number,
+  spectrum: ((start: number) => Float64Array) | null
+): number => {
+  let level = 0;
+  for (let i = 2; i < size; i++) {
+    level += Math.abs(stream[tail - i - 1] - 2 * stream[tail - i] + stream[tail - i + 1]);
+    level += Math.abs(stream[head + i] - 2 * stream[head + i - 1] + stream[head + i - 2]);
+  }
+  level /= 2 * (size - 2);
+  const predicted = 2 * stream[tail - 1] - stream[tail - 2];
+  let cost = Math.log(1 + Math.abs(stream[head] - predicted) / (level + 1e-9));
+
+  if (spectrum) {
+    const before = spectrum(tail - size);
+    const after = spectrum(head);
+    let distance = 0;
+    for (let k = 0; k < before.length; k++) distance += Math.abs(before[k] - after[k]);
+    cost += distance / before.length;
+  }
+  return cost;
+};
+
+// Sounds start sharply and fade slowly, so the loudness envelope rises in big
+// steps and falls in small ones. Segments keep their own time direction through
+// any reordering, so the skew of envelope changes says whether the file runs
+// backwards: from -1 (backwards) to 1 (forwards).
+const timeDirection = (mono: Float32Array, sampleRate: number): number => {
+  const frame = Math.max(1, Math.round(ENVELOPE_FRAME * sampleRate));
+  const envelope: number[] = [];
+  for (let start = 0; start + frame <= mono.length; start += frame) {
+    let energy = 0;
+    for (let i = start; i < start + frame; i++) energy += mono[i] * mono[i];
+    envelope.push(Math.log(1e-9 + energy / frame));
+  }
+  if (envelope.length < 3) return 0;
+
+  const changes = envelope.slice(1).map((value, i) => value - envelope[i]);
+  const mean = changes.reduce((sum, change) => sum + change, 0) / changes.length;
+  const moment = (power: number) => changes.reduce((sum, change) => sum + (change - mean) ** power, 0) / changes.length;
+  const variance = moment(2);
+  return variance > 0 ? Math.tanh(moment(3) / variance ** 1.5) : 0;
+};
+
+// Evenly spread indices into n items, at most `limit` of them
+const spread = (n: number, limit: number): number[] => {
+  const count = Math.min(n, limit);
+  return Array.from({ length: count }, (_, i) => Math.floor((i * n) / count));
+};
+
+const intervalFor = (length: number, sampleRate: number): { interval: number; intervalUnit: IntervalUnit } => {
+  const seconds = Math.round((length / sampleRate) * 1000) / 1000;
+  const { min, max } = SPEC_LIMITS.seconds;
+  return seconds >= min && seconds <= max && Math.round(seconds * sampleRate) === length
+    ? { interval: seconds, intervalUnit: 'seconds' }
+    : { interval: length, intervalUnit: 'samples' };
+};
+
+interface Candidate {
+  spec: EncodingSpec;
+  reverse: boolean;
+  cost: number;
+  smoothness: number;
+}
+
+// Scores every split and oddEven reordering, with and without reversal, at one segment length
+const scoreLength = (mono: Float32Array, reversed: Float32Array, length: number, sampleRate: number): Candidate[] => {
+  const lengths = segmentLengths(mono.length, length);
+  const size = Math.min(MAX_SPECTRUM, 2 ** Math.floor(Math.log2(length / 2)));
+  const useSpectrum = size >= 16;
+  const spectra = {
+    forward: useSpectrum ? spectrumCache(mono, size) : null,
+    reversed: useSpectrum ? spectrumCache(reversed, size) : null
+  };
+
+  // Joins between segments that are each long enough to measure
+  const joins = spread(lengths.length - 1, MAX_JOINS).filter(i => lengths[i] >= size && lengths[i + 1] >= size);
+  const meanCost = (costs: number[]) => costs.reduce((sum, cost) => sum + cost, 0) / Math.max(1, costs.length);
+
+  // References: the file's own boundaries, on whichever grid they fall, and
+  // cuts through the middle of segments
+  const boundaryCost = (stream: Float32Array, spectrum: typeof spectra.forward) =>
+    meanCost(joins.map(i => joinCost(stream, (i + 1) * length, (i + 1) * length, size, spectrum)));
+  const asIs = Math.max(boundaryCost(mono, spectra.forward), boundaryCost(reversed, spectra.reversed));
+  const unbroken = meanCost(
+    joins.map(i => joinCost(mono, i * length + (length >> 1), i * length + (length >> 1), size, spectra.forward))
+  );
+
+  const interval = intervalFor(length, sampleRate);
+  const reorders: ReorderStage[] = [
+    { type: 'oddEven', numberOfParts: 2, ...interval },
+    ...Array.from({ length: MAX_PARTS - 1 }, (_, i): ReorderStage => ({ type: 'split', numberOfParts: i + 2, ...interval }))
+  ];
+
+  const seen = new Set<string>();
+  const candidates: Candidate[] = [];
+  for (const stage of reorders) {
+    // Small segment counts make some reorderings identical; keep the simplest
+    const order = reorderForEncode(lengths.map((_, i) => i), stage);
+    const signature = order.join(',');
+    if (seen.has(signature)) continue;
+    seen.add(signature);
+
+    const starts = new Array<number>(lengths.length);
+    let position = 0;
+    for (const index of order) {
+      starts[index] = position;
+      position += lengths[index];
+    }
+
+    for (const reverse of [false, true]) {
+      const stream = reverse ? reversed : mono;
+      const spectrum = reverse ? spectra.reversed : spectra.forward;
+      const cost = meanCost(joins.map(i => joinCost(stream, starts[i] + lengths[i], starts[i + 1], size, spectrum)));
+      const stages: Stage[] = reverse ? [stage, { type: 'reverse' }] : [stage];
+      candidates.push({ spec: { stages }, reverse, cost, smoothness: (asIs - cost) / Math.max(MIN_CONTRAST, asIs - unbroken) });
+    }
+  }
+  return candidates;
+};
+
+// The right order joins segments as smoothly as unbroken audio. Scoring well
+// past that happens at wrong segment lengths, whose reference cuts straddle
+// real boundaries, so it counts against a candidate.
+const fit = (smoothness: number) => 1 - Math.abs(1 - smoothness);
+
+export const estimateCode = (pcm: PcmAudio, options: EstimateOptions = {}): CodeEstimate[] => {
+  const { maxResults = 10, onProgress } = options;
+  const mono = mixdown(pcm);
+  const maxLength = Math.min(
+    Math.floor(mono.length / MIN_BOUNDARIES),
+    Math.floor(MAX_SEGMENT_SIZE / Math.max(1, pcm.channels.length)),
+    Math.round(10 * pcm.sampleRate)
+  );
+  if (maxLength < MIN_SEGMENT) return [];
+
+  const scores = combScores(jumpRatios(roughness(mono)), MIN_SEGMENT, maxLength, onProgress && (f => onProgress(f / 2)));
+  const reversed = mono.slice().reverse();
+  const segmentSizes = likelyLengths(scores, MIN_SEGMENT);
+
+  const candidates = segmentSizes.flatMap((length, i) => {
+    const scored = scoreLength(mono, reversed, length, pcm.sampleRate);
+    onProgress?.(0.5 + (i + 1) / (2 * segmentSizes.length));
+    return scored;
+  });
+
+  // Softmax over smoothness, so near-ties split the confidence, then scaled down
+  // when even the best fit isn't much smoother than the file as-is. A mirrored
+  // order decodes to the audio played backwards, just as smooth, so the time
+  // direction settles the reverse flag.
+  const direction = timeDirection(mono, pcm.sampleRate);
+  const fits = candidates.map(c => fit(c.smoothness));
+  const best = Math.max(...fits);
+  const weights = candidates.map((c, i) =>
+    Math.exp((fits[i] - best) / CONFIDENCE_TEMPERATURE + (c.reverse ? -direction : direction) * DIRECTION_WEIGHT)
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return candidates
+    .map((candidate, i) => ({
+      code: serializeSpec(candidate.spec),
+      spec: candidate.spec,
+      confidence: (weights[i] / total) * Math.max(0, fits[i]),
+      smoothness: candidate.smoothness
+    }))
+    .sort((a, b) => b.confidence - a.confidence || b.smoothness - a.smoothness)
+    .slice(0, maxResults);
+};
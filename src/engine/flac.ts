@@ -0,0 +1,450 @@
+import { quantizeChannels } from './quantize';
+import type { SampleFormat } from './quantize';
+import type { PcmAudio } from './types';
+import type { WavMetadata } from './wav';
+
+// Lossless FLAC writer. Each channel of each block picks the cheapest of a
+// constant, verbatim or fixed-predictor subframe with Rice-coded residuals,
+// and stereo picks the cheapest of left/right, left/side, side/right and
+// mid/side. No LPC, so files come out somewhat larger than the reference
+// encoder's, but any FLAC decoder reads them.
+
+// Frames per block. Chunks encoded on their own have to start on a block boundary.
+export const FLAC_BLOCK_SIZE = 4096;
+
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+const MAX_CHANNELS = 8;
+
+// Vorbis comment field holding the encoding code, the FLAC counterpart of the WAV chunk
+export const FLAC_CODE_FIELD = 'AUDIO_ENCODE_CODE';
+
+const BLOCK_STREAMINFO = 0;
+const BLOCK_VORBIS_COMMENT = 4;
+
+const CHANNELS_LEFT_SIDE = 8;
+const CHANNELS_RIGHT_SIDE = 9;
+const CHANNELS_MID_SIDE = 10;
+
+const crcTable = (bits: number, polynomial: number): Uint16Array => {
+  const top = 1 << (bits - 1);
+  const mask = (1 << bits) - 1;
+  const table = new Uint16Array(256);
+  for (let byte = 0; byte < 256; byte++) {
+    let crc = byte << (bits - 8);
+    for (let i = 0; i < 8; i++) {
+      crc = crc & top ? ((crc << 1) ^ polynomial) & mask : (crc << 1) & mask;
+    }
+    table[byte] = crc;
+  }
+  return table;
+};
+
+const CRC8_TABLE = crcTable(8, 0x07);
+const CRC16_TABLE = crcTable(16, 0x8005);
+
+const crc8 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of bytes) crc = CRC8_TABLE[crc ^ byte];
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[(crc >> 8) ^ byte];
+  return crc;
+};
+
+// MSB-first bit packing into a buffer sized up front
+const createBitWriter = (capacity: number) => {
+  const bytes = new Uint8Array(capacity);
+  let length = 0;
+  let accumulator = 0;
+  let pending = 0; // bits in the accumulator, always under 8 between writes
+
+  // Writes the low `bits` bits of a non-negative value, up to 32
+  const write = (value: number, bits: number) => {
+    if (bits > 24) {
+      write(Math.floor(value / 0x1000000), bits - 24);
+      value %= 0x1000000;
+      bits = 24;
+    }
+    accumulator = (accumulator << bits) | (value & ((1 << bits) - 1));
+    pending += bits;
+    while (pending >= 8) {
+      pending -= 8;
+      bytes[length++] = (accumulator >>> pending) & 0xFF;
+    }
+    accumulator &= (1 << pending) - 1;
+  };
+
+  return {
+    write,
+    writeSigned: (value: number, bits: number) => write(value < 0 ? value + 2 ** bits : value, bits),
+    writeZeros: (count: number) => {
+      for (; count > 24; count -= 24) write(0, 24);
+      write(0, count);
+    },
+    alignToByte: () => {
+      if (pending > 0) write(0, 8 - pending);
+    },
+    // Only whole bytes; call at byte boundaries
+    bytesFrom: (start: number) => bytes.subarray(start, length),
+    length: () => length
+  };
+};
+
+type BitWriter = ReturnType<typeof createBitWriter>;
+
+// Frame numbers use the UTF-8 byte layout, extended to 31 bits
+const writeFrameNumber = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let count = 2;
+  while (value >= 2 ** (5 * count + 1)) count++;
+  writer.write(((0xFF << (8 - count)) & 0xFF) | Math.floor(value / 2 ** (6 * (count - 1))), 8);
+  for (let i = count - 2; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8);
+  }
+};
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+}
+
+type SubframePlan =
+  | { type: 'constant'; bits: number }
+  | { type: 'verbatim'; bits: number }
+  | { type: 'fixed'; bits: number; order: number; residual: Int32Array; rice: RicePlan };
+
+// Residual of the fixed polynomial predictor of this order; the first `order` entries are unused
+const fixedResidual = (samples: Int32Array, order: number): Int32Array => {
+  const residual = new Int32Array(samples.length);
+  for (let i = order; i < samples.length; i++) {
+    const x = samples;
+    switch (order) {
+      case 0: residual[i] = x[i]; break;
+      case 1: residual[i] = x[i] - x[i - 1]; break;
+      case 2: residual[i] = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+      case 3: residual[i] = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+      default: residual[i] = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+    }
+  }
+  return residual;
+};
+
+const zigzag = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1);
+
+// Rice parameter near log2 of the mean, and an upper bound on the bits it takes
+const riceParameter = (sum: number, count: number): number =>
+  count === 0 || sum < count ? 0 : Math.min(30, Math.floor(Math.log2(sum / count)));
+
+const riceBits = (sum: number, count: number, parameter: number): number =>
+  count * (parameter + 1) + Math.floor(sum / 2 ** parameter);
+
+// Tries every partition order the block size allows and keeps the cheapest
+const planRice = (residual: Int32Array, order: number): { rice: RicePlan; bits: number } => {
+  const blockSize = residual.length;
+  const prefix = new Float64Array(blockSize + 1);
+  for (let i = 0; i < blockSize; i++) {
+    prefix[i + 1] = prefix[i] + (i < order ? 0 : zigzag(residual[i]));
+  }
+
+  let best: { rice: RicePlan; bits: number } | null = null;
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitionSize = blockSize >> partitionOrder;
+    if (blockSize % (1 << partitionOrder) !== 0 || partitionSize <= order) break;
+
+    const parameters: number[] = [];
+    let bits = 0;
+    for (let partition = 0; partition < 1 << partitionOrder; partition++) {
+      const start = partition === 0 ? order : partition * partitionSize;
+      const end = (partition + 1) * partitionSize;
+      const sum = prefix[end] - prefix[start];
+      const parameter = riceParameter(sum, end - start);
+      parameters.push(parameter);
+      bits += riceBits(sum, end - start, parameter);
+    }
+    // 4-bit parameters unless one needs the 5-bit coding
+    bits += parameters.length * (Math.max(...parameters) > 14 ? 5 : 4);
+
+    if (!best || bits < best.bits) best = { rice: { partitionOrder, parameters }, bits };
+  }
+  return best!;
+};
+
+// `bits` is the sample width of this channel, one more for a side channel
+const planSubframe = (samples: Int32Array, bits: number): SubframePlan => {
+  if (samples.every(sample => sample === samples[0])) {
+    return { type: 'constant', bits: 8 + bits };
+  }
+
+  const verbatim: SubframePlan = { type: 'verbatim', bits: 8 + samples.length * bits };
+
+  // The order with the smallest residual, as the reference encoder guesses it
+  let order = 0;
+  let residual = fixedResidual(samples, 0);
+  let smallest = Infinity;
+  for (let candidate = 0; candidate <= Math.min(MAX_FIXED_ORDER, samples.length - 1); candidate++) {
+    const candidateResidual = fixedResidual(samples, candidate);
+    let sum = 0;
+    for (let i = candidate; i < samples.length; i++) sum += Math.abs(candidateResidual[i]);
+    if (sum < smallest) {
+      smallest = sum;
+      order = candidate;
+      residual = candidateResidual;
+    }
+  }
+
+  const { rice, bits: riceTotal } = planRice(residual, order);
+  const fixedBits = 8 + order * bits + 6 + riceTotal;
+  return fixedBits < verbatim.bits ? { type: 'fixed', bits: fixedBits, order, residual, rice } : verbatim;
+};
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, bits: number, plan: SubframePlan) => {
+  if (plan.type === 'constant') {
+    writer.write(0b00000000, 8);
+    writer.writeSigned(samples[0], bits);
+    return;
+  }
+  if (plan.type === 'verbatim') {
+    writer.write(0b00000010, 8);
+    for (const sample of samples) writer.writeSigned(sample, bits);
+    return;
+  }
+
+  const { order, residual, rice } = plan;
+  writer.write((0b001000 | order) << 1, 8);
+  for (let i = 0; i < order; i++) writer.writeSigned(samples[i], bits);
+
+  const wide = Math.max(...rice.parameters) > 14;
+  writer.write(wide ? 1 : 0, 2);
+  writer.write(rice.partitionOrder, 4);
+  const partitionSize = samples.length >> rice.partitionOrder;
+  rice.parameters.forEach((parameter, partition) => {
+    writer.write(parameter, wide ? 5 : 4);
+    const start = partition === 0 ? order : partition * partitionSize;
+    const end = (partition + 1) * partitionSize;
+    const low = 2 ** parameter;
+    for (let i = start; i < end; i++) {
+      const value = zigzag(residual[i]);
+      writer.writeZeros(Math.floor(value / low));
+      writer.write(1, 1);
+      writer.write(value % low, parameter);
+    }
+  });
+};
+
+interface ChannelLayout {
+  assignment: number;
+  channels: Int32Array[];
+  bits: number[];
+  plans: SubframePlan[];
+}
+
+// Independent channels, or whichever stereo decorrelation is cheapest
+const chooseLayout = (channels: Int32Array[], bitsPerSample: number): ChannelLayout => {
+  const plans = channels.map(samples => planSubframe(samples, bitsPerSample));
+  const independent: ChannelLayout = {
+    assignment: channels.length - 1,
+    channels,
+    bits: channels.map(() => bitsPerSample),
+    plans
+  };
+  if (channels.length !== 2) return independent;
+
+  const [left, right] = channels;
+  const side = left.map((sample, i) => sample - right[i]);
+  const mid = left.map((sample, i) => (sample + right[i]) >> 1);
+  const sidePlan = planSubframe(side, bitsPerSample + 1);
+  const midPlan = planSubframe(mid, bitsPerSample);
+
+  const layouts: ChannelLayout[] = [
+    independent,
+    { assignment: CHANNELS_LEFT_SIDE, channels: [left, side], bits: [bitsPerSample, bitsPerSample + 1], plans: [plans[0], sidePlan] },
+    { assignment: CHANNELS_RIGHT_SIDE, channels: [side, right], bits: [bitsPerSample + 1, bitsPerSample], plans: [sidePlan, plans[1]] },
+    { assignment: CHANNELS_MID_SIDE, channels: [mid, side], bits: [bitsPerSample, bitsPerSample + 1], plans: [midPlan, sidePlan] }
+  ];
+  const cost = (layout: ChannelLayout) => layout.plans.reduce((sum, plan) => sum + plan.bits, 0);
+  return layouts.reduce((best, layout) => (cost(layout) < cost(best) ? layout : best));
+};
+
+const writeFrame = (writer: BitWriter, channels: Int32Array[], frameNumber: number, bitsPerSample: number) => {
+  const blockSize = channels[0].length;
+  const layout = chooseLayout(channels, bitsPerSample);
+  const start = writer.length();
+
+  // Sync code, fixed block size, then block size from the header's tail
+  // (or 4096 directly) and sample rate from STREAMINFO
+  writer.write(0xFFF8, 16);
+  const blockSizeCode = blockSize === 4096 ? 0b1100 : blockSize <= 256 ? 0b0110 : 0b0111;
+  writer.write(blockSizeCode, 4);
+  writer.write(0, 4);
+  writer.write(layout.assignment, 4);
+  writer.write(bitsPerSample === 16 ? 0b100 : 0b110, 3);
+  writer.write(0, 1);
+  writeFrameNumber(writer, frameNumber);
+  if (blockSizeCode === 0b0110) writer.write(blockSize - 1, 8);
+  if (blockSizeCode === 0b0111) writer.write(blockSize - 1, 16);
+  writer.write(crc8(writer.bytesFrom(start)), 8);
+
+  layout.channels.forEach((samples, i) => writeSubframe(writer, samples, layout.bits[i], layout.plans[i]));
+  writer.alignToByte();
+  writer.write(crc16(writer.bytesFrom(start)), 16);
+};
+
+const validateFormat = (numberOfChannels: number, format: SampleFormat) => {
+  if (format.float || format.bitsPerSample === 32) {
+    throw new Error('FLAC output is 16 or 24-bit integer only');
+  }
+  if (numberOfChannels < 1 || numberOfChannels > MAX_CHANNELS) {
+    throw new Error(`FLAC holds 1 to ${MAX_CHANNELS} channels, got ${numberOfChannels}`);
+  }
+};
+
+const metadataBlock = (type: number, body: Uint8Array, last: boolean): Uint8Array => {
+  const block = new Uint8Array(4 + body.length);
+  const view = new DataView(block.buffer);
+  view.setUint32(0, ((last ? 0x80 : 0) << 24 | type << 24 | body.length) >>> 0);
+  block.set(body, 4);
+  return block;
+};
+
+const streamInfo = (sampleRate: number, numberOfChannels: number, frameCount: number, bitsPerSample: number) => {
+  const writer = createBitWriter(34);
+  writer.write(FLAC_BLOCK_SIZE, 16); // min block size
+  writer.write(FLAC_BLOCK_SIZE, 16); // max block size
+  writer.write(0, 24); // min frame size, unknown
+  writer.write(0, 24); // max frame size, unknown
+  writer.write(sampleRate, 20);
+  writer.write(numberOfChannels - 1, 3);
+  writer.write(bitsPerSample - 1, 5);
+  writer.write(Math.floor(frameCount / 2 ** 32), 4);
+  writer.write(frameCount % 2 ** 32, 32);
+  // All-zero MD5 means it wasn't computed, which decoders accept
+  writer.writeZeros(128);
+  return writer.bytesFrom(0);
+};
+
+// Little-endian, unlike the rest of FLAC
+const vorbisComment = (comments: string[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const strings = [encoder.encode('Audio Encode'), ...comments.map(comment => encoder.encode(comment))];
+  const body = new Uint8Array(4 + strings.reduce((sum, string) => sum + 4 + string.length, 0));
+  const view = new DataView(body.buffer);
+  let offset = 0;
+  strings.forEach((string, i) => {
+    view.setUint32(offset, string.length, true);
+    body.set(string, offset + 4);
+    offset += 4 + string.length;
+    // The comment count follows the vendor string
+    if (i === 0) {
+      view.setUint32(offset, comments.length, true);
+      offset += 4;
+    }
+  });
+  return body;
+};
+
+// The "fLaC" marker and metadata blocks, ready for frameCount frames
+export const flacHeader = (
+  sampleRate: number,
+  numberOfChannels: number,
+  frameCount: number,
+  metadata: WavMetadata,
+  format: SampleFormat
+): Uint8Array => {
+  validateFormat(numberOfChannels, format);
+  const comments = metadata.code ? [`${FLAC_CODE_FIELD}=${metadata.code}`, `COMMENT=Audio Encode code: ${metadata.code}`] : [];
+
+  const blocks = [metadataBlock(BLOCK_STREAMINFO, streamInfo(sampleRate, numberOfChannels, frameCount, format.bitsPerSample), !comments.length)];
+  if (comments.length) blocks.push(metadataBlock(BLOCK_VORBIS_COMMENT, vorbisComment(comments), true));
+
+  const header = new Uint8Array(4 + blocks.reduce((sum, block) => sum + block.length, 0));
+  header.set(new TextEncoder().encode('fLaC'));
+  let offset = 4;
+  for (const block of blocks) {
+    header.set(block, offset);
+    offset += block.length;
+  }
+  return header;
+};
+
+// Frames for a flacHeader; `position` is the first frame's place in the file
+// and has to fall on a block boundary
+export const encodeFlacFrames = (channels: Float32Array[], format: SampleFormat, position = 0): Uint8Array => {
+  if (position % FLAC_BLOCK_SIZE !== 0) {
+    throw new Error(`FLAC chunks have to start at a multiple of ${FLAC_BLOCK_SIZE} frames`);
+  }
+  validateFormat(channels.length, format);
+  const { bitsPerSample } = format;
+  const samples = quantizeChannels(channels, bitsPerSample, format.dither, position);
+  const frameCount = samples[0].length;
+  const blocks = Math.ceil(frameCount / FLAC_BLOCK_SIZE);
+
+  // Every subframe is at most verbatim, plus headers and footers
+  const writer = createBitWriter(
+    blocks * (18 + channels.length * 2) + Math.ceil((frameCount * channels.length * (bitsPerSample + 1)) / 8)
+  );
+  for (let block = 0; block < blocks; block++) {
+    const start = block * FLAC_BLOCK_SIZE;
+    const end = Math.min(frameCount, start + FLAC_BLOCK_SIZE);
+    writeFrame(writer, samples.map(channel => channel.subarray(start, end)), position / FLAC_BLOCK_SIZE + block, bitsPerSample);
+  }
+  return writer.bytesFrom(0).slice();
+};
+
+export const encodeFlac = (pcm: PcmAudio, metadata: WavMetadata, format: SampleFormat): ArrayBuffer => {
+  const header = flacHeader(pcm.sampleRate, pcm.channels.length, pcm.channels[0].length, metadata, format);
+  const frames = encodeFlacFrames(pcm.channels, format);
+  const flac = new Uint8Array(header.length + frames.length);
+  flac.set(header);
+  flac.set(frames, header.length);
+  return flac.buffer;
+};
+
+export const isFlac = (buffer: ArrayBuffer): boolean =>
+  buffer.byteLength >= 4 && new TextDecoder().decode(new Uint8Array(buffer, 0, 4)) === 'fLaC';
+
+// The embedded code from the Vorbis comments, or null. Only needs the bytes
+// up to the end of the comment block.
+export const readFlacCode = (buffer: ArrayBuffer): string | null => {
+  if (!isFlac(buffer)) return null;
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  for (let offset = 4; offset + 4 <= buffer.byteLength;) {
+    const header = view.getUint32(offset);
+    const type = (header >>> 24) & 0x7F;
+    const length = header & 0xFFFFFF;
+    const body = offset + 4;
+    if (body + length > buffer.byteLength) return null;
+
+    if (type === BLOCK_VORBIS_COMMENT) {
+      // Every length is checked against the block, so a damaged one reads as no code
+      const end = body + length;
+      const fits = (position: number, size: number) => position + 4 + size <= end;
+      if (!fits(body, 0) || !fits(body, view.getUint32(body, true))) return null;
+      let position = body + 4 + view.getUint32(body, true);
+      if (!fits(position, 0)) return null;
+      const count = view.getUint32(position, true);
+      position += 4;
+      for (let i = 0; i < count; i++) {
+        if (!fits(position, 0)) return null;
+        const size = view.getUint32(position, true);
+        if (!fits(position, size)) return null;
+        const comment = decoder.decode(new Uint8Array(buffer, position + 4, size));
+        const separator = comment.indexOf('=');
+        if (comment.slice(0, separator).toUpperCase() === FLAC_CODE_FIELD) return comment.slice(separator + 1);
+        position += 4 + size;
+      }
+      return null;
+    }
+    if (header & 0x80000000) return null;
+    offset = body + length;
+  }
+  return null;
+};
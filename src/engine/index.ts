@@ -0,0 +1,114 @@
+export { encode, decode, isLossy, needsKey, withSampleGrid } from './scramble';
+export {
+  encodeStage,
+  decodeStage,
+  isKeyedStage,
+  isLossyStage,
+  isReorderStage,
+  isSegmentedStage
+} from './stages';
+export { reorderForEncode, reorderForDecode } from './reorder';
+export {
+  MAX_SEGMENT_SIZE,
+  intervalToSamples,
+  segmentLengths,
+  createAudioSegments,
+  joinAudioSegments,
+  reversePcm,
+  pcmLength,
+  pcmDuration
+} from './segments';
+export { createRandom, keyedPermutation } from './random';
+export { CODE_VERSION, EncodingCodeError, SPEC_LIMITS, parseSpec, serializeSpec, validateSpec } from './code';
+export type { AllowedRange, CodeField, ParsedCode } from './code';
+export { BAND_FRAME_SIZE, MAX_BANDS, MIN_BANDS } from './bands';
+export {
+  STREAM_CHUNK_FRAMES,
+  encodeSource,
+  decodeSource,
+  audioFileSource,
+  pcmSource,
+  writeAudioStream
+} from './stream';
+export type { AudioSource, ByteReader } from './stream';
+export { estimateCode } from './estimate';
+export type { CodeEstimate, EstimateOptions } from './estimate';
+export { compareAudio } from './compare';
+export type { AudioComparison } from './compare';
+export { LOSSY_PASS_SNR_DB, verifyRoundTrip } from './verify';
+export type { RoundTripResult } from './verify';
+export { waveform } from './waveform';
+export type { Waveform } from './waveform';
+export { segmentMap } from './mapping';
+export type { SegmentPiece } from './mapping';
+export {
+  ENCODING_CHUNK_ID,
+  encodeWav,
+  decodeWav,
+  isSupportedWav,
+  isWav,
+  readWavCode,
+  readWavHeader,
+  wavHeader,
+  wavTrailer,
+  encodeWavFrames
+} from './wav';
+export type { WavMetadata } from './wav';
+export { decodeAiff, isAiff, readAiffHeader } from './aiff';
+export { UnsupportedAudioError, decodePcmFrames, pcmFrameCount } from './samples';
+export type { PcmFileFormat, SampleEncoding } from './samples';
+export {
+  AUDIO_FILE_KINDS,
+  AUDIO_HEADER_BYTES,
+  decodeAudioFile,
+  isNativeAudio,
+  readAudioFileHeader,
+  sniffAudioFile
+} from './input';
+export type { AudioFileKind } from './input';
+export { FLAC_BLOCK_SIZE, FLAC_CODE_FIELD, encodeFlac, encodeFlacFrames, flacHeader, isFlac, readFlacCode } from './flac';
+export { OPUS_SAMPLE_RATE, encodeWebm, isWebm, opusHead, readWebmCode } from './webm';
+export type { OpusPacket, OpusStreamInfo } from './webm';
+export { PCM_16, integerScale, quantizeChannels, sampleGrid, storedPcm } from './quantize';
+export type { SampleFormat } from './quantize';
+export {
+  DEFAULT_OUTPUT_FORMAT,
+  OUTPUT_FORMATS,
+  audioFileHeader,
+  audioFileTrailer,
+  encodeAudioFile,
+  encodeAudioFrames,
+  outputExtension,
+  outputFileName,
+  outputFormat,
+  outputMimeType,
+  readEmbeddedCode
+} from './output';
+export type { OutputContainer, OutputFormat, OutputFormatName } from './output';
+export type {
+  AudioSegment,
+  BandStage,
+  ChannelShuffleStage,
+  ChannelSwapStage,
+  EncodingSpec,
+  EncodingType,
+  IntervalUnit,
+  KeystreamMode,
+  KeystreamStage,
+  MidSideStage,
+  PcmAudio,
+  SampleGrid,
+  SegmentPattern,
+  PolarityStage,
+  ProgressCallback,
+  ReorderStage,
+  ReverseStage,
+  SegmentReverseStage,
+  SegmentedStage,
+  Segmentation,
+  Stage,
+  StageType,
+  SyncStage,
+  TimeRange,
+  TransformOptions
+} from './types';
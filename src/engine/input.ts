@@ -0,0 +1,65 @@
+import { decodeAiff, isAiff, readAiffHeader } from './aiff';
+import { UnsupportedAudioError } from './samples';
+import type { PcmFileFormat } from './samples';
+import type { PcmAudio } from './types';
+import { decodeWav, isWav, readWavHeader } from './wav';
+
+// Which kind of audio file a header is, for reading WAV and AIFF ourselves and
+// for naming the format when a browser can't decode the rest
+
+export type AudioFileKind = 'wav' | 'aiff' | 'flac' | 'ogg' | 'mp4' | 'mp3' | 'webm' | 'unknown';
+
+export const AUDIO_FILE_KINDS: Record<AudioFileKind, { name: string; mimeType: string }> = {
+  wav: { name: 'WAV', mimeType: 'audio/wav' },
+  aiff: { name: 'AIFF', mimeType: 'audio/aiff' },
+  flac: { name: 'FLAC', mimeType: 'audio/flac' },
+  ogg: { name: 'Ogg', mimeType: 'audio/ogg' },
+  mp4: { name: 'M4A/MP4', mimeType: 'audio/mp4' },
+  mp3: { name: 'MP3', mimeType: 'audio/mpeg' },
+  webm: { name: 'WebM', mimeType: 'audio/webm' },
+  unknown: { name: 'unknown', mimeType: '' }
+};
+
+// Headers are read from this much of the start of a file. Chunks before the
+// samples, like cover art, can take a lot of it.
+export const AUDIO_HEADER_BYTES = 1024 * 1024;
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string): boolean =>
+  bytes.length >= offset + text.length && [...text].every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+export const sniffAudioFile = (header: ArrayBuffer): AudioFileKind => {
+  const bytes = new Uint8Array(header, 0, Math.min(header.byteLength, 16));
+  if (isWav(header)) return 'wav';
+  if (isAiff(header)) return 'aiff';
+  if (startsWith(bytes, 0, 'fLaC')) return 'flac';
+  if (startsWith(bytes, 0, 'OggS')) return 'ogg';
+  if (startsWith(bytes, 4, 'ftyp')) return 'mp4';
+  if (startsWith(bytes, 0, '\x1A\x45\xDF\xA3')) return 'webm';
+  // An ID3 tag, or straight into an MPEG frame sync
+  if (startsWith(bytes, 0, 'ID3') || (bytes[0] === 0xFF && (bytes[1] & 0xE0) === 0xE0)) return 'mp3';
+  return 'unknown';
+};
+
+// Whether we read this kind of file ourselves rather than through the browser
+export const isNativeAudio = (kind: AudioFileKind): boolean => kind === 'wav' || kind === 'aiff';
+
+const notNative = (kind: AudioFileKind) =>
+  new UnsupportedAudioError(
+    kind === 'unknown' ? 'Not a WAV or AIFF file' : `${AUDIO_FILE_KINDS[kind].name} files can't be read here, only WAV and AIFF`
+  );
+
+// Reads the sample format of a WAV or AIFF file from its first bytes. Throws
+// UnsupportedAudioError for other kinds and for encodings the readers don't handle.
+export const readAudioFileHeader = (header: ArrayBuffer, fileSize: number): PcmFileFormat => {
+  const kind = sniffAudioFile(header);
+  if (kind === 'wav') return readWavHeader(header, fileSize);
+  if (kind === 'aiff') return readAiffHeader(header, fileSize);
+  throw notNative(kind);
+};
+
+export const decodeAudioFile = (buffer: ArrayBuffer): PcmAudio => {
+  const kind = sniffAudioFile(buffer);
+  if (kind === 'wav') return decodeWav(buffer);
+  if (kind === 'aiff') return decodeAiff(buffer);
+  throw notNative(kind);
+};
@@ -0,0 +1,54 @@
+import { createRandom, requireKey } from './random';
+import { toGrid, wrapGrid } from './segments';
+import type { KeystreamStage, PcmAudio } from './types';
+
+// The stream is reseeded every block, so any range can be produced without
+// replaying it from the start
+const KEYSTREAM_BLOCK = 0x10000;
+
+// Applies the keystream to channels whose first sample sits at `offset`.
+// Each channel gets its own stream, seeded from the key and the channel index.
+export const keystreamChannels = (
+  channels: Float32Array[],
+  offset: number,
+  stage: KeystreamStage,
+  key: string | undefined,
+  inverse: boolean
+): Float32Array[] => {
+  const streamKey = requireKey(key, 'Keystream');
+  const { grid } = stage;
+  const scale = 2 ** (grid - 1);
+  const mask = 2 * scale - 1;
+  return channels.map((channel, index) => {
+    const output = new Float32Array(channel.length);
+    let random = () => 0;
+    for (let i = 0; i < channel.length; i++) {
+      const position = offset + i;
+      if (i === 0 || position % KEYSTREAM_BLOCK === 0) {
+        random = createRandom(`${streamKey}#${index}:${Math.floor(position / KEYSTREAM_BLOCK)}`);
+        for (let skip = position % KEYSTREAM_BLOCK; skip > 0; skip--) random();
+      }
+
+      const sample = toGrid(channel[i], grid);
+      const noise = random() & mask;
+      let value: number;
+      if (stage.mode === 'xor') {
+        value = wrapGrid(sample ^ noise, grid);
+      } else {
+        value = wrapGrid(inverse ? sample - noise : sample + noise, grid);
+      }
+      output[i] = value / scale;
+    }
+    return output;
+  });
+};
+
+export const encodeKeystream = (pcm: PcmAudio, stage: KeystreamStage, key?: string): PcmAudio => ({
+  sampleRate: pcm.sampleRate,
+  channels: keystreamChannels(pcm.channels, 0, stage, key, false)
+});
+
+export const decodeKeystream = (pcm: PcmAudio, stage: KeystreamStage, key?: string): PcmAudio => ({
+  sampleRate: pcm.sampleRate,
+  channels: keystreamChannels(pcm.channels, 0, stage, key, true)
+});
@@ -0,0 +1,166 @@
+import { rangeKey, rangeSpans, stagedLength } from './ranges';
+import { reorderForEncode } from './reorder';
+import { intervalToSamples, segmentLengths } from './segments';
+import { isReorderStage, isSegmentedStage, stageKey, stageLength } from './stages';
+import { syncLayout, syncSegmentStart } from './sync';
+import type { EncodingSpec, Stage } from './types';
+
+// A stretch of an original segment and where encoding put it
+export interface SegmentPiece {
+  segment: number; // index of the original segment, as cut by the first segmented stage
+  sourceStart: number; // in the original audio
+  outputStart: number; // in the encoded audio
+  length: number;
+  reversed: boolean; // runs backwards in the encoded audio
+}
+
+// Beyond this the map is too fine to draw and too big to pass around
+const MAX_PIECES = 50000;
+
+interface Shape {
+  length: number;
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+const segmentSize = (stage: Stage, shape: Shape): number =>
+  isSegmentedStage(stage)
+    ? intervalToSamples(stage.interval, stage.intervalUnit, shape.sampleRate, shape.numberOfChannels)
+    : shape.length;
+
+// Cuts pieces wherever they cross a multiple of `size` in the encoded audio.
+// A reversed piece's first part comes from the end of its source range.
+const splitPieces = (pieces: SegmentPiece[], size: number): SegmentPiece[] =>
+  pieces.flatMap((piece) => {
+    const parts: SegmentPiece[] = [];
+    let start = piece.outputStart;
+    const end = piece.outputStart + piece.length;
+    while (start < end) {
+      const cut = Math.min(end, (Math.floor(start / size) + 1) * size);
+      const offset = piece.reversed ? end - cut : start - piece.outputStart;
+      parts.push({ ...piece, sourceStart: piece.sourceStart + offset, outputStart: start, length: cut - start });
+      start = cut;
+    }
+    return parts;
+  });
+
+const movePieces = (pieces: SegmentPiece[], stage: Stage, shape: Shape, key?: string): SegmentPiece[] => {
+  const { length } = shape;
+  if (stage.type === 'reverse') {
+    return pieces.map(piece => ({
+      ...piece,
+      outputStart: length - piece.outputStart - piece.length,
+      reversed: !piece.reversed
+    }));
+  }
+
+  if (stage.type === 'segmentReverse') {
+    const size = segmentSize(stage, shape);
+    return splitPieces(pieces, size).map((piece) => {
+      const segmentStart = Math.floor(piece.outputStart / size) * size;
+      const segmentEnd = Math.min(length, segmentStart + size);
+      return {
+        ...piece,
+        outputStart: segmentStart + segmentEnd - piece.outputStart - piece.length,
+        reversed: !piece.reversed
+      };
+    });
+  }
+
+  if (isReorderStage(stage)) {
+    const size = segmentSize(stage, shape);
+    const lengths = segmentLengths(length, size);
+    const order = reorderForEncode(lengths.map((_, i) => i), stage, key);
+    const encodedStarts = new Array<number>(lengths.length);
+    let position = 0;
+    for (const index of order) {
+      encodedStarts[index] = position;
+      position += lengths[index];
+    }
+    return splitPieces(pieces, size).map((piece) => {
+      const segment = Math.floor(piece.outputStart / size);
+      return { ...piece, outputStart: encodedStarts[segment] + piece.outputStart - segment * size };
+    });
+  }
+
+  // Sync framing pushes every segment along by the frames before it
+  if (stage.type === 'sync') {
+    const layout = syncLayout(stage, shape.sampleRate, shape.numberOfChannels);
+    return splitPieces(pieces, layout.block).map((piece) => {
+      const block = Math.floor(piece.outputStart / layout.block);
+      return { ...piece, outputStart: syncSegmentStart(layout, block) + piece.outputStart - block * layout.block };
+    });
+  }
+
+  // Everything else leaves samples where they are in time. Channel shuffles
+  // never get here: stagesMap has no single place to put their pieces.
+  return pieces;
+};
+
+const stagesMap = (
+  stages: Stage[],
+  length: number,
+  sampleRate: number,
+  numberOfChannels: number,
+  key?: string
+): SegmentPiece[] | null => {
+  if (length === 0) return [];
+  // A channel shuffle moves each channel differently, which one map can't show
+  if (stages.some(stage => stage.type === 'channelShuffle')) return null;
+  let shape: Shape = { length, sampleRate, numberOfChannels };
+  // Every segmented stage cuts at least one piece per segment
+  const sizes = stages.map(stage => segmentSize(stage, shape));
+  if (sizes.some(size => Math.ceil(length / size) > MAX_PIECES)) return null;
+
+  const first = stages.findIndex(isSegmentedStage);
+  const size = first === -1 ? length : sizes[first];
+
+  let pieces: SegmentPiece[] = segmentLengths(length, size).map((pieceLength, segment) => ({
+    segment,
+    sourceStart: segment * size,
+    outputStart: segment * size,
+    length: pieceLength,
+    reversed: false
+  }));
+
+  for (const [index, stage] of stages.entries()) {
+    if (pieces.length > MAX_PIECES) return null;
+    pieces = movePieces(pieces, stage, shape, stageKey(key, index));
+    shape = { ...shape, length: stageLength(stage, shape.length, sampleRate, numberOfChannels) };
+  }
+  return pieces.length > MAX_PIECES ? null : pieces.sort((a, b) => a.outputStart - b.outputStart);
+};
+
+// Follows every original segment through the stages, in encode order. Only
+// the ranges of a partial encode have pieces; the audio between them doesn't
+// move. Null when the segments are too small to map, or channels move apart.
+export const segmentMap = (
+  spec: EncodingSpec,
+  length: number,
+  sampleRate: number,
+  numberOfChannels: number,
+  key?: string
+): SegmentPiece[] | null => {
+  const { stages, ranges } = spec;
+  if (!ranges?.length) return stagesMap(stages, length, sampleRate, numberOfChannels, key);
+
+  const pieces: SegmentPiece[] = [];
+  let segments = 0;
+  let shift = 0;
+  for (const [index, span] of rangeSpans(ranges, length, sampleRate).entries()) {
+    const rangeLength = span.end - span.start;
+    const mapped = stagesMap(stages, rangeLength, sampleRate, numberOfChannels, rangeKey(key, index));
+    if (!mapped || pieces.length + mapped.length > MAX_PIECES) return null;
+    for (const piece of mapped) {
+      pieces.push({
+        ...piece,
+        segment: segments + piece.segment,
+        sourceStart: span.start + piece.sourceStart,
+        outputStart: span.start + shift + piece.outputStart
+      });
+    }
+    segments += mapped.reduce((count, piece) => Math.max(count, piece.segment + 1), 0);
+    shift += stagedLength(stages, rangeLength, sampleRate, numberOfChannels) - rangeLength;
+  }
+  return pieces;
+};
@@ -0,0 +1,72 @@
+import { encodeFlac, encodeFlacFrames, flacHeader, isFlac, readFlacCode } from './flac';
+import { PCM_16 } from './quantize';
+import type { SampleFormat } from './quantize';
+import type { PcmAudio } from './types';
+import { encodeWav, encodeWavFrames, readWavCode, wavHeader, wavTrailer } from './wav';
+import type { WavMetadata } from './wav';
+import { isWebm, readWebmCode } from './webm';
+
+export type OutputContainer = 'wav' | 'flac';
+
+export interface OutputFormat extends SampleFormat {
+  container: OutputContainer;
+}
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = { container: 'wav', ...PCM_16 };
+
+// The formats offered by the app and the CLI; dither is chosen separately
+export const OUTPUT_FORMATS = {
+  wav16: { container: 'wav', bitsPerSample: 16, float: false },
+  wav24: { container: 'wav', bitsPerSample: 24, float: false },
+  wav32: { container: 'wav', bitsPerSample: 32, float: false },
+  float32: { container: 'wav', bitsPerSample: 32, float: true },
+  flac16: { container: 'flac', bitsPerSample: 16, float: false },
+  flac24: { container: 'flac', bitsPerSample: 24, float: false }
+} as const satisfies Record<string, Omit<OutputFormat, 'dither'>>;
+
+export type OutputFormatName = keyof typeof OUTPUT_FORMATS;
+
+export const outputFormat = (name: OutputFormatName, dither = false): OutputFormat => ({ ...OUTPUT_FORMATS[name], dither });
+
+export const outputExtension = (format: OutputFormat): string => `.${format.container}`;
+
+export const outputMimeType = (format: OutputFormat): string => `audio/${format.container}`;
+
+// `prefix_name` with the extension the format is written with
+export const outputFileName = (name: string, prefix: string, format: OutputFormat): string =>
+  `${prefix}_${name.replace(/\.[^.]*$/, '')}${outputExtension(format)}`;
+
+export const encodeAudioFile = (
+  pcm: PcmAudio,
+  metadata: WavMetadata = {},
+  format: OutputFormat = DEFAULT_OUTPUT_FORMAT
+): ArrayBuffer =>
+  format.container === 'flac' ? encodeFlac(pcm, metadata, format) : encodeWav(pcm, metadata, format);
+
+// The pieces of a file written a chunk at a time: the header, frames from
+// `position` onwards, and what goes after the last frame
+
+export const audioFileHeader = (
+  sampleRate: number,
+  numberOfChannels: number,
+  frameCount: number,
+  metadata: WavMetadata,
+  format: OutputFormat
+): Uint8Array =>
+  format.container === 'flac'
+    ? flacHeader(sampleRate, numberOfChannels, frameCount, metadata, format)
+    : wavHeader(sampleRate, numberOfChannels, frameCount, metadata, format);
+
+export const encodeAudioFrames = (channels: Float32Array[], format: OutputFormat, position: number): Uint8Array =>
+  format.container === 'flac' ? encodeFlacFrames(channels, format, position) : encodeWavFrames(channels, format, position);
+
+export const audioFileTrailer = (frameCount: number, numberOfChannels: number, format: OutputFormat): Uint8Array =>
+  format.container === 'flac' ? new Uint8Array(0) : wavTrailer(frameCount, numberOfChannels, format);
+
+// Returns the embedded encoding code of a WAV, FLAC or WebM file, or null if it
+// has none. Only needs the bytes up to the end of the code.
+export const readEmbeddedCode = (buffer: ArrayBuffer): string | null => {
+  if (isFlac(buffer)) return readFlacCode(buffer);
+  if (isWebm(buffer)) return readWebmCode(buffer);
+  return readWavCode(buffer);
+};
@@ -0,0 +1,71 @@
+import { createRandom } from './random';
+import type { PcmAudio, SampleGrid } from './types';
+
+// How samples are stored in written files
+export interface SampleFormat {
+  bitsPerSample: 16 | 24 | 32;
+  float: boolean; // 32-bit IEEE float instead of integers
+  dither: boolean; // TPDF dither samples that fall between steps of an integer format
+}
+
+export const PCM_16: SampleFormat = { bitsPerSample: 16, float: false, dither: false };
+
+// The dither is reseeded every block, so a chunk written on its own gets the
+// same noise as the whole file written at once
+const DITHER_BLOCK = 0x10000;
+
+// Full scale of an integer format, matching the scaling decodeWav reads with
+export const integerScale = (bitsPerSample: number): number => 2 ** (bitsPerSample - 1);
+
+// The integer grid stages have to work on for their output to survive this
+// format. Float32Array samples hold at most 24 bits exactly.
+export const sampleGrid = (format: SampleFormat): SampleGrid => (format.bitsPerSample > 16 ? 24 : 16);
+
+// Rounds to integers at `bitsPerSample`, clipping at full scale. Only samples
+// that aren't already on the grid get dither, so audio that was read at this
+// depth or lower still comes back bit for bit. `offset` is the position of
+// the first frame.
+export const quantizeChannels = (
+  channels: Float32Array[],
+  bitsPerSample: number,
+  dither: boolean,
+  offset = 0
+): Int32Array[] => {
+  const scale = integerScale(bitsPerSample);
+  const min = -scale;
+  const max = scale - 1;
+
+  return channels.map((channel, index) => {
+    const output = new Int32Array(channel.length);
+    let random = () => 0;
+    for (let i = 0; i < channel.length; i++) {
+      let value = channel[i] * scale;
+      if (dither) {
+        const position = offset + i;
+        if (i === 0 || position % DITHER_BLOCK === 0) {
+          random = createRandom(`tpdf#${index}:${Math.floor(position / DITHER_BLOCK)}`);
+          for (let skip = position % DITHER_BLOCK; skip > 0; skip--) {
+            random();
+            random();
+          }
+        }
+        // Difference of two uniform values: triangular over ±1 step
+        const noise = (random() - random()) / 0x100000000;
+        if (value !== Math.round(value)) value += noise;
+      }
+      output[i] = Math.max(min, Math.min(max, Math.round(value)));
+    }
+    return output;
+  });
+};
+
+// The audio a reader gets back from a file written in this format
+export const storedPcm = (pcm: PcmAudio, format: SampleFormat): PcmAudio => {
+  if (format.float) return pcm;
+  const scale = integerScale(format.bitsPerSample);
+  return {
+    sampleRate: pcm.sampleRate,
+    channels: quantizeChannels(pcm.channels, format.bitsPerSample, format.dither)
+      .map(samples => Float32Array.from(samples, sample => sample / scale))
+  };
+};
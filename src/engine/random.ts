@@ -0,0 +1,83 @@
+import type { SegmentPattern } from './types';
+
+// Deterministic keyed randomness. Not cryptographic, but the 128-bit state
+// keeps the permutation space far beyond what brute-forcing parameters covers.
+
+// cyrb128: hashes a string into four 32-bit seeds
+const hashKey = (key: string): [number, number, number, number] => {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < key.length; i++) {
+    const k = key.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0];
+};
+
+// sfc32 generator returning uint32 values
+export const createRandom = (key: string): (() => number) => {
+  let [a, b, c, d] = hashKey(key);
+  const next = () => {
+    a |= 0;
+    b |= 0;
+    c |= 0;
+    d |= 0;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return t >>> 0;
+  };
+
+  // Discard the first outputs, which still correlate with the seed
+  for (let i = 0; i < 15; i++) next();
+  return next;
+};
+
+export const requireKey = (key: string | undefined, what: string): string => {
+  if (!key) throw new Error(`${what} needs a key`);
+  return key;
+};
+
+// Fisher-Yates shuffle of 0..count-1. Entry j is the source index placed at j.
+export const randomPermutation = (count: number, random: () => number): number[] => {
+  const order = Array.from({ length: count }, (_, i) => i);
+  for (let i = count - 1; i > 0; i--) {
+    const j = random() % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+export const keyedPermutation = (count: number, key: string): number[] =>
+  randomPermutation(count, createRandom(key));
+
+// Which of `count` segments a patterned transform applies to: every other
+// one, or a keyed coin flip per segment
+export const selectSegments = (
+  pattern: SegmentPattern,
+  count: number,
+  key: string | undefined,
+  what: string
+): boolean[] => {
+  if (pattern === 'alternate') {
+    return Array.from({ length: count }, (_, i) => i % 2 === 1);
+  }
+  const random = createRandom(requireKey(key, what));
+  return Array.from({ length: count }, () => (random() & 1) === 1);
+};
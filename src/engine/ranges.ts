@@ -0,0 +1,82 @@
+import { stageLength } from './stages';
+import type { PcmAudio, Stage, TimeRange } from './types';
+
+// Partial encoding: only the ranges go through the stages, each on its own,
+// and the audio around them stays where it is. Stages that add to the length
+// (sync framing) push everything after a range back by what they added.
+
+// A range in samples, [start, end)
+export interface RangeSpan {
+  start: number;
+  end: number;
+}
+
+const toSamples = (seconds: number, sampleRate: number): number => Math.round(seconds * sampleRate);
+
+const pastTheEnd = (range: TimeRange) =>
+  new Error(`The range ${range.start}–${range.end} s starts after the end of the audio`);
+
+// Each range gets its own keystream and shuffles
+export const rangeKey = (key: string | undefined, index: number): string | undefined =>
+  key !== undefined && index > 0 ? `${key}@${index}` : key;
+
+// Length of the audio after every stage
+export const stagedLength = (stages: Stage[], length: number, sampleRate: number, numberOfChannels: number): number =>
+  stages.reduce((current, stage) => stageLength(stage, current, sampleRate, numberOfChannels), length);
+
+// Where the ranges are in the original audio. A range running past the end is
+// cut short there.
+export const rangeSpans = (ranges: TimeRange[], length: number, sampleRate: number): RangeSpan[] =>
+  ranges.map(range => {
+    const start = toSamples(range.start, sampleRate);
+    if (start >= length) throw pastTheEnd(range);
+    return { start, end: Math.min(length, toSamples(range.end, sampleRate)) };
+  });
+
+// Where the encoded ranges are in the encoded audio. A range cut short by the
+// end of the original is cut short the same way here.
+export const encodedRangeSpans = (
+  ranges: TimeRange[],
+  stages: Stage[],
+  encodedLength: number,
+  sampleRate: number,
+  numberOfChannels: number
+): RangeSpan[] => {
+  let shift = 0;
+  return ranges.map(range => {
+    const start = toSamples(range.start, sampleRate) + shift;
+    if (start >= encodedLength) throw pastTheEnd(range);
+    const length = toSamples(range.end, sampleRate) - toSamples(range.start, sampleRate);
+    const staged = stagedLength(stages, length, sampleRate, numberOfChannels);
+    shift += staged - length;
+    return { start, end: Math.min(encodedLength, start + staged) };
+  });
+};
+
+// Replaces each span with what `transform` makes of it, keeping the audio between them
+export const spliceRanges = (
+  pcm: PcmAudio,
+  spans: RangeSpan[],
+  transform: (range: PcmAudio, index: number) => PcmAudio
+): PcmAudio => {
+  const parts: Float32Array[][] = [];
+  let position = 0;
+  spans.forEach((span, index) => {
+    parts.push(pcm.channels.map(channel => channel.subarray(position, span.start)));
+    const range = { sampleRate: pcm.sampleRate, channels: pcm.channels.map(channel => channel.slice(span.start, span.end)) };
+    parts.push(transform(range, index).channels);
+    position = span.end;
+  });
+  parts.push(pcm.channels.map(channel => channel.subarray(position)));
+
+  const channels = pcm.channels.map((_, channel) => {
+    const samples = new Float32Array(parts.reduce((sum, part) => sum + part[channel].length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      samples.set(part[channel], offset);
+      offset += part[channel].length;
+    }
+    return samples;
+  });
+  return { sampleRate: pcm.sampleRate, channels };
+};
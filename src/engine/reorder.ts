@@ -0,0 +1,69 @@
+import { keyedPermutation, requireKey } from './random';
+import { createAudioSegments, joinAudioSegments, segmentLayout } from './segments';
+import type { PcmAudio, ReorderStage } from './types';
+
+type ReorderSpec = Pick<ReorderStage, 'type' | 'numberOfParts'>;
+
+
+// Reorders items for encoding. Generic so the same logic can drive
+// segment data, segment indices or anything else that needs the mapping.
+export const reorderForEncode = <T>(items: T[], spec: ReorderSpec, key?: string): T[] => {
+  if (spec.type === 'shuffle') {
+    return keyedPermutation(items.length, requireKey(key, 'Shuffle encoding')).map(index => items[index]);
+  }
+
+  if (spec.type === 'split') {
+    // Split into N parts and interleave
+    const segmentsPerPart = Math.ceil(items.length / spec.numberOfParts);
+    const parts: T[][] = [];
+
+    for (let i = 0; i < spec.numberOfParts; i++) {
+      const startIdx = i * segmentsPerPart;
+      const endIdx = Math.min((i + 1) * segmentsPerPart, items.length);
+      parts.push(items.slice(startIdx, endIdx));
+    }
+
+    // Interleave items from all parts
+    const reordered: T[] = [];
+    const maxLength = Math.max(...parts.map(part => part.length));
+    for (let i = 0; i < maxLength; i++) {
+      for (const part of parts) {
+        if (i < part.length) {
+          reordered.push(part[i]);
+        }
+      }
+    }
+    return reordered;
+  }
+
+  // Odd indices first, then even indices
+  const odd = items.filter((_, i) => i % 2 === 0);
+  const even = items.filter((_, i) => i % 2 === 1);
+  return [...odd, ...even];
+};
+
+// Exact inverse of reorderForEncode for any item count, including uneven parts
+export const reorderForDecode = <T>(items: T[], spec: ReorderSpec, key?: string): T[] => {
+  const order = reorderForEncode(items.map((_, i) => i), spec, key);
+  const reordered: T[] = new Array(items.length);
+  order.forEach((index, position) => {
+    reordered[index] = items[position];
+  });
+  return reordered;
+};
+
+export const reorderPcm = (pcm: PcmAudio, stage: ReorderStage, key?: string): PcmAudio => {
+  const segments = createAudioSegments(pcm, segmentLayout(pcm, stage));
+  const reordered = reorderForEncode(segments, stage, key);
+  return joinAudioSegments(reordered, pcm.channels.length, pcm.sampleRate);
+};
+
+export const restorePcm = (pcm: PcmAudio, stage: ReorderStage, key?: string): PcmAudio => {
+  // Slice at the encoded positions of the original segment lengths, so a
+  // short final segment that ended up mid-stream is cut at the right place
+  const lengths = segmentLayout(pcm, stage);
+  const encodedLengths = reorderForEncode(lengths, stage, key);
+  const segments = createAudioSegments(pcm, encodedLengths);
+  const reordered = reorderForDecode(segments, stage, key);
+  return joinAudioSegments(reordered, pcm.channels.length, pcm.sampleRate);
+};
@@ -0,0 +1,95 @@
+// Sample data as WAV and AIFF store it: interleaved frames of fixed-size
+// samples. Both readers describe their data chunk with a PcmFileFormat and
+// share the deinterleaving here.
+
+// `signed` and `unsigned` are integers of any width up to 32 bits, left-justified
+// in their bytes; `alaw` and `mulaw` are 8-bit G.711
+export type SampleEncoding = 'signed' | 'unsigned' | 'float' | 'alaw' | 'mulaw';
+
+export interface PcmFileFormat {
+  encoding: SampleEncoding;
+  bytesPerSample: number;
+  littleEndian: boolean;
+  numberOfChannels: number;
+  sampleRate: number;
+  dataOffset: number;
+  dataLength: number; // in bytes, already cut to the end of the file
+}
+
+// The file is a kind of audio that can't be read, as opposed to a broken one
+export class UnsupportedAudioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedAudioError';
+  }
+}
+
+// G.711 expansion to 16-bit values, as tables over every byte
+const ALAW_TABLE = Int16Array.from({ length: 256 }, (_, byte) => {
+  const value = byte ^ 0x55;
+  const exponent = (value >> 4) & 0x7;
+  const mantissa = value & 0xF;
+  const magnitude = exponent === 0 ? (mantissa << 4) + 8 : ((mantissa << 4) + 0x108) << (exponent - 1);
+  return value & 0x80 ? magnitude : -magnitude;
+});
+
+const MULAW_TABLE = Int16Array.from({ length: 256 }, (_, byte) => {
+  const value = ~byte & 0xFF;
+  const exponent = (value >> 4) & 0x7;
+  const magnitude = ((((value & 0xF) << 3) + 0x84) << exponent) - 0x84;
+  return value & 0x80 ? -magnitude : magnitude;
+});
+
+export const blockAlign = (format: PcmFileFormat): number => format.bytesPerSample * format.numberOfChannels;
+
+export const pcmFrameCount = (format: PcmFileFormat): number => Math.floor(format.dataLength / blockAlign(format));
+
+// Reads one sample as a float, full scale at ±1
+const sampleReader = (view: DataView, format: PcmFileFormat): ((position: number) => number) => {
+  const { encoding, bytesPerSample, littleEndian } = format;
+
+  if (encoding === 'float') {
+    return bytesPerSample === 8
+      ? position => view.getFloat64(position, littleEndian)
+      : position => view.getFloat32(position, littleEndian);
+  }
+  if (encoding === 'alaw') return position => ALAW_TABLE[view.getUint8(position)] / 0x8000;
+  if (encoding === 'mulaw') return position => MULAW_TABLE[view.getUint8(position)] / 0x8000;
+
+  if (bytesPerSample === 1) {
+    return encoding === 'unsigned'
+      ? position => (view.getUint8(position) - 0x80) / 0x80
+      : position => view.getInt8(position) / 0x80;
+  }
+  if (bytesPerSample === 2) return position => view.getInt16(position, littleEndian) / 0x8000;
+  if (bytesPerSample === 4) return position => view.getInt32(position, littleEndian) / 0x80000000;
+
+  // 24 bits, most significant byte signed
+  return littleEndian
+    ? position => (view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16)) / 0x800000
+    : position => ((view.getInt8(position) << 16) | (view.getUint8(position + 1) << 8) | view.getUint8(position + 2)) / 0x800000;
+};
+
+// Deinterleaves frameCount frames starting at `offset`
+export const readPcmFrames = (
+  view: DataView,
+  offset: number,
+  frameCount: number,
+  format: PcmFileFormat
+): Float32Array[] => {
+  const { numberOfChannels, bytesPerSample } = format;
+  const frameBytes = blockAlign(format);
+  const read = sampleReader(view, format);
+  const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(frameCount));
+
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      channels[channel][i] = read(offset + i * frameBytes + channel * bytesPerSample);
+    }
+  }
+  return channels;
+};
+
+// Decodes whole frames of sample data read from a file with this format
+export const decodePcmFrames = (bytes: ArrayBuffer, format: PcmFileFormat): Float32Array[] =>
+  readPcmFrames(new DataView(bytes), 0, Math.floor(bytes.byteLength / blockAlign(format)), format);
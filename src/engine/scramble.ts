@@ -0,0 +1,59 @@
+import { encodedRangeSpans, rangeKey, rangeSpans, spliceRanges } from './ranges';
+import { pcmLength } from './segments';
+import { decodeStage, encodeStage, isKeyedStage, isLossyStage, stageKey } from './stages';
+import type { EncodingSpec, PcmAudio, ProgressCallback, SampleGrid, Stage, TransformOptions } from './types';
+
+// Spreads a stage's own progress over its share of the pipeline
+const stageProgress = (onProgress: ProgressCallback | undefined, done: number, count: number) =>
+  onProgress && ((fraction: number) => onProgress((done + fraction) / count));
+
+// A range's key and its share of the progress
+const rangeOptions = (options: TransformOptions, index: number, count: number): TransformOptions => ({
+  key: rangeKey(options.key, index),
+  onProgress: stageProgress(options.onProgress, index, count)
+});
+
+const encodeStages = (pcm: PcmAudio, stages: Stage[], options: TransformOptions): PcmAudio => {
+  const count = stages.length;
+  return stages.reduce((current, stage, index) => {
+    const result = encodeStage(current, stage, stageKey(options.key, index), stageProgress(options.onProgress, index, count));
+    options.onProgress?.((index + 1) / count);
+    return result;
+  }, pcm);
+};
+
+// Runs the inverse of each stage, last stage first
+const decodeStages = (pcm: PcmAudio, stages: Stage[], options: TransformOptions): PcmAudio => {
+  const count = stages.length;
+  return stages.reduceRight((current, stage, index) => {
+    const done = count - 1 - index;
+    const result = decodeStage(current, stage, stageKey(options.key, index), stageProgress(options.onProgress, done, count));
+    options.onProgress?.((done + 1) / count);
+    return result;
+  }, pcm);
+};
+
+export const encode = (pcm: PcmAudio, spec: EncodingSpec, options: TransformOptions = {}): PcmAudio => {
+  const { stages, ranges } = spec;
+  if (!ranges?.length) return encodeStages(pcm, stages, options);
+  const spans = rangeSpans(ranges, pcmLength(pcm), pcm.sampleRate);
+  return spliceRanges(pcm, spans, (range, index) => encodeStages(range, stages, rangeOptions(options, index, spans.length)));
+};
+
+export const decode = (pcm: PcmAudio, spec: EncodingSpec, options: TransformOptions = {}): PcmAudio => {
+  const { stages, ranges } = spec;
+  if (!ranges?.length) return decodeStages(pcm, stages, options);
+  const spans = encodedRangeSpans(ranges, stages, pcmLength(pcm), pcm.sampleRate, pcm.channels.length);
+  return spliceRanges(pcm, spans, (range, index) => decodeStages(range, stages, rangeOptions(options, index, spans.length)));
+};
+
+export const needsKey = (spec: EncodingSpec): boolean => spec.stages.some(isKeyedStage);
+
+export const isLossy = (spec: EncodingSpec): boolean => spec.stages.some(isLossyStage);
+
+// The spec with its integer stages moved to `grid`, so they stay exact in a
+// file of that depth
+export const withSampleGrid = (spec: EncodingSpec, grid: SampleGrid): EncodingSpec => ({
+  ...spec,
+  stages: spec.stages.map(stage => ('grid' in stage ? { ...stage, grid } : stage))
+});
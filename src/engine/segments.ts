@@ -0,0 +1,99 @@
+import type { AudioSegment, IntervalUnit, PcmAudio, SampleGrid, Segmentation } from './types';
+
+export const MAX_SEGMENT_SIZE = 1024 * 1024; // 1MB segments max
+
+export const pcmLength = (pcm: PcmAudio): number =>
+  pcm.channels.length > 0 ? pcm.channels[0].length : 0;
+
+export const pcmDuration = (pcm: PcmAudio): number => pcmLength(pcm) / pcm.sampleRate;
+
+// The integer samples a writer at `bits` produces, and wraparound back into their range
+export const toGrid = (sample: number, bits: SampleGrid) => {
+  const scale = 2 ** (bits - 1);
+  return Math.max(-scale, Math.min(scale - 1, Math.round(sample * scale)));
+};
+export const wrapGrid = (value: number, bits: SampleGrid) => {
+  const scale = 2 ** (bits - 1);
+  return ((value + scale) & (2 * scale - 1)) - scale;
+};
+
+// Converts an interval to whole samples. Throws rather than silently
+// truncating when a segment would exceed MAX_SEGMENT_SIZE.
+export const intervalToSamples = (
+  interval: number,
+  unit: IntervalUnit,
+  sampleRate: number,
+  numberOfChannels: number
+): number => {
+  const samples = unit === 'samples' ? interval : Math.round(interval * sampleRate);
+  if (!Number.isInteger(samples) || samples < 1) {
+    throw new Error(`Interval must be at least one whole sample, got ${samples}`);
+  }
+
+  const limit = Math.floor(MAX_SEGMENT_SIZE / Math.max(1, numberOfChannels));
+  if (samples > limit) {
+    throw new Error(
+      `Segments of ${samples} samples exceed the ${limit}-sample limit for ${numberOfChannels} channel(s)`
+    );
+  }
+  return samples;
+};
+
+// Every segment is the same whole number of samples except a shorter final one.
+// The layout depends only on the total length, so decode can rebuild it exactly
+// from the encoded file: reordering never changes the total.
+export const segmentLengths = (totalLength: number, samplesPerSegment: number): number[] => {
+  const lengths: number[] = [];
+  for (let start = 0; start < totalLength; start += samplesPerSegment) {
+    lengths.push(Math.min(samplesPerSegment, totalLength - start));
+  }
+  return lengths;
+};
+
+export const segmentLayout = (pcm: PcmAudio, segmentation: Segmentation): number[] =>
+  segmentLengths(
+    pcmLength(pcm),
+    intervalToSamples(segmentation.interval, segmentation.intervalUnit, pcm.sampleRate, pcm.channels.length)
+  );
+
+// Cuts the audio into consecutive segments of the given lengths
+export const createAudioSegments = (pcm: PcmAudio, lengths: number[]): AudioSegment[] => {
+  const segments: AudioSegment[] = [];
+
+  let start = 0;
+  for (const length of lengths) {
+    const end = start + length;
+    const data = pcm.channels.map(channel => channel.slice(start, end));
+    segments.push({ start, end, data });
+    start = end;
+  }
+
+  return segments;
+};
+
+export const joinAudioSegments = (
+  segments: AudioSegment[],
+  numberOfChannels: number,
+  sampleRate: number
+): PcmAudio => {
+  const totalLength = segments.reduce((sum, segment) => sum + segment.data[0].length, 0);
+  const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(totalLength));
+
+  let writePosition = 0;
+  for (const segment of segments) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      channels[channel].set(segment.data[channel], writePosition);
+    }
+    writePosition += segment.data[0].length;
+
+    // Clear segment data after use
+    segment.data = [];
+  }
+
+  return { sampleRate, channels };
+};
+
+export const reversePcm = (pcm: PcmAudio): PcmAudio => ({
+  sampleRate: pcm.sampleRate,
+  channels: pcm.channels.map(channel => channel.slice().reverse())
+});
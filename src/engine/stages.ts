@@ -0,0 +1,135 @@
+import { decodeBands, encodeBands } from './bands';
+import { decodeChannelShuffle, encodeChannelShuffle, fromMidSide, swapChannels, toMidSide } from './channels';
+import { decodeKeystream, encodeKeystream } from './keystream';
+import { selectSegments } from './random';
+import { reorderPcm, restorePcm } from './reorder';
+import { reversePcm, segmentLayout, toGrid } from './segments';
+import { decodeSync, encodeSync, syncedLength, syncLayout } from './sync';
+import type {
+  PcmAudio,
+  PolarityStage,
+  ProgressCallback,
+  ReorderStage,
+  SampleGrid,
+  SegmentedStage,
+  Segmentation,
+  Stage
+} from './types';
+
+// Applies fn to every segment of every channel, on a copy of the audio
+const transformSegments = (
+  pcm: PcmAudio,
+  stage: Segmentation,
+  fn: (data: Float32Array, segmentIndex: number) => void
+): PcmAudio => {
+  const lengths = segmentLayout(pcm, stage);
+  const channels = pcm.channels.map(channel => channel.slice());
+
+  let start = 0;
+  lengths.forEach((length, index) => {
+    for (const channel of channels) {
+      fn(channel.subarray(start, start + length), index);
+    }
+    start += length;
+  });
+
+  return { sampleRate: pcm.sampleRate, channels };
+};
+
+// One's complement on the output grid (-x - 1 step) rather than plain negation:
+// it maps the integer range onto itself, so full-scale negative survives instead
+// of clipping. Samples are rounded the way the writer rounds them first, so ties
+// from deeper input come back the same as the unscrambled file would store them.
+export const invertPolarity = (data: Float32Array, grid: SampleGrid) => {
+  const scale = 2 ** (grid - 1);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (-toGrid(data[i], grid) - 1) / scale;
+  }
+};
+
+// Both segment transforms are their own inverse
+const applyPolarity = (pcm: PcmAudio, stage: PolarityStage, key?: string): PcmAudio => {
+  const inverted = selectSegments(stage.pattern, segmentLayout(pcm, stage).length, key, 'Keyed polarity inversion');
+  return transformSegments(pcm, stage, (data, index) => {
+    if (inverted[index]) invertPolarity(data, stage.grid);
+  });
+};
+
+const reverseSegments = (pcm: PcmAudio, stage: Segmentation): PcmAudio =>
+  transformSegments(pcm, stage, data => data.reverse());
+
+// Later stages get their own key so repeated keyed stages don't repeat the
+// same permutation. The first stage uses the key as-is, matching single-stage codes.
+export const stageKey = (key: string | undefined, index: number): string | undefined =>
+  key && index > 0 ? `${key}/${index}` : key;
+
+// Only the slow stages report progress of their own
+export const encodeStage = (pcm: PcmAudio, stage: Stage, key?: string, onProgress?: ProgressCallback): PcmAudio => {
+  switch (stage.type) {
+    case 'reverse':
+      return reversePcm(pcm);
+    case 'segmentReverse':
+      return reverseSegments(pcm, stage);
+    case 'polarity':
+      return applyPolarity(pcm, stage, key);
+    case 'channelSwap':
+      return swapChannels(pcm, stage, key, false);
+    case 'channelShuffle':
+      return encodeChannelShuffle(pcm, stage, key);
+    case 'midSide':
+      return toMidSide(pcm, stage.grid);
+    case 'bands':
+      return encodeBands(pcm, stage, key, onProgress);
+    case 'keystream':
+      return encodeKeystream(pcm, stage, key);
+    case 'sync':
+      return encodeSync(pcm, stage);
+    default:
+      return reorderPcm(pcm, stage, key);
+  }
+};
+
+export const decodeStage = (pcm: PcmAudio, stage: Stage, key?: string, onProgress?: ProgressCallback): PcmAudio => {
+  switch (stage.type) {
+    case 'reverse':
+      return reversePcm(pcm);
+    case 'segmentReverse':
+      return reverseSegments(pcm, stage);
+    case 'polarity':
+      return applyPolarity(pcm, stage, key);
+    case 'channelSwap':
+      return swapChannels(pcm, stage, key, true);
+    case 'channelShuffle':
+      return decodeChannelShuffle(pcm, stage, key);
+    case 'midSide':
+      return fromMidSide(pcm, stage.grid);
+    case 'bands':
+      return decodeBands(pcm, stage, key, onProgress);
+    case 'keystream':
+      return decodeKeystream(pcm, stage, key);
+    case 'sync':
+      return decodeSync(pcm, stage);
+    default:
+      return restorePcm(pcm, stage, key);
+  }
+};
+
+export const isSegmentedStage = (stage: Stage): stage is SegmentedStage =>
+  stage.type !== 'reverse' && stage.type !== 'midSide' && stage.type !== 'keystream';
+
+export const isReorderStage = (stage: Stage): stage is ReorderStage =>
+  stage.type === 'split' || stage.type === 'oddEven' || stage.type === 'shuffle';
+
+export const isKeyedStage = (stage: Stage): boolean =>
+  stage.type === 'shuffle'
+  || stage.type === 'channelShuffle'
+  || stage.type === 'bands'
+  || stage.type === 'keystream'
+  || ((stage.type === 'polarity' || stage.type === 'channelSwap') && stage.pattern === 'keyed');
+
+// Length of a stage's output. Only sync framing changes it.
+export const stageLength = (stage: Stage, length: number, sampleRate: number, numberOfChannels: number): number =>
+  stage.type === 'sync' ? syncedLength(length, syncLayout(stage, sampleRate, numberOfChannels)) : length;
+
+// Stages whose decode only approximates the original
+export const isLossyStage = (stage: Stage): boolean => stage.type === 'bands';
@@ -0,0 +1,532 @@
+import { bandPlan, bandSpan, scrambledLength, scrambleSpan } from './bands';
+import { channelOrders, fromMidSide, toMidSide } from './channels';
+import { keystreamChannels } from './keystream';
+import { requireKey, selectSegments } from './random';
+import { encodedRangeSpans, rangeKey, rangeSpans } from './ranges';
+import type { RangeSpan } from './ranges';
+import { reorderForEncode } from './reorder';
+import { intervalToSamples, pcmLength, segmentLengths } from './segments';
+import { audioFileHeader, audioFileTrailer, DEFAULT_OUTPUT_FORMAT, encodeAudioFrames } from './output';
+import type { OutputFormat } from './output';
+import { invertPolarity, stageKey } from './stages';
+import {
+  expectedSyncMarker,
+  findSyncMarker,
+  headWindow,
+  isLastSyncBlock,
+  nextWindow,
+  noSyncMarkers,
+  syncDecodedLength,
+  syncedLength,
+  syncEnding,
+  syncFrame,
+  syncFrameLength,
+  syncFrameStart,
+  syncLayout,
+  syncSegmentSpan,
+  tailWindow,
+  windowSpan
+} from './sync';
+import type { SyncMarker, SyncTrack, SyncWindow } from './sync';
+import type {
+  BandStage,
+  ChannelShuffleStage,
+  ChannelSwapStage,
+  EncodingSpec,
+  PcmAudio,
+  PolarityStage,
+  ProgressCallback,
+  ReorderStage,
+  Segmentation,
+  Stage,
+  SyncStage,
+  TransformOptions
+} from './types';
+import { AUDIO_HEADER_BYTES, readAudioFileHeader } from './input';
+import { blockAlign, decodePcmFrames, pcmFrameCount } from './samples';
+import type { WavMetadata } from './wav';
+
+// Streaming counterpart of encode/decode, for audio too large to hold in memory.
+// Sources are read one range at a time, and each stage maps the range it's
+// asked for onto ranges of the stage before it. Only the chunk being written
+// and the segment tables are held at once.
+
+export interface AudioSource {
+  sampleRate: number;
+  numberOfChannels: number;
+  length: number; // in frames
+  read: (start: number, length: number) => Promise<Float32Array[]>;
+}
+
+// Reads bytes [start, end) of a file
+export type ByteReader = (start: number, end: number) => Promise<ArrayBuffer>;
+
+// Frames per written chunk, 1 MB of 16-bit stereo. A whole number of FLAC
+// blocks, so every chunk can be encoded on its own.
+export const STREAM_CHUNK_FRAMES = 0x40000;
+
+const shapeOf = (source: AudioSource) => ({
+  sampleRate: source.sampleRate,
+  numberOfChannels: source.numberOfChannels,
+  length: source.length
+});
+
+const emptyChannels = (numberOfChannels: number, length: number): Float32Array[] =>
+  Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+
+export const pcmSource = (pcm: PcmAudio): AudioSource => ({
+  sampleRate: pcm.sampleRate,
+  numberOfChannels: pcm.channels.length,
+  length: pcmLength(pcm),
+  read: async (start, length) => pcm.channels.map(channel => channel.slice(start, start + length))
+});
+
+// A WAV or AIFF file, read from disk a range at a time. The sample data has
+// to start within AUDIO_HEADER_BYTES of the start.
+export const audioFileSource = async (readBytes: ByteReader, fileSize: number): Promise<AudioSource> => {
+  const format = readAudioFileHeader(await readBytes(0, Math.min(fileSize, AUDIO_HEADER_BYTES)), fileSize);
+  const frameBytes = blockAlign(format);
+
+  return {
+    sampleRate: format.sampleRate,
+    numberOfChannels: format.numberOfChannels,
+    length: pcmFrameCount(format),
+    read: async (start, length) => {
+      const offset = format.dataOffset + start * frameBytes;
+      return decodePcmFrames(await readBytes(offset, offset + length * frameBytes), format);
+    }
+  };
+};
+
+const segmentSize = (source: AudioSource, segmentation: Segmentation): number =>
+  intervalToSamples(segmentation.interval, segmentation.intervalUnit, source.sampleRate, source.numberOfChannels);
+
+const segmentStarts = (lengths: number[]): Float64Array => {
+  const starts = new Float64Array(lengths.length);
+  for (let i = 1; i < lengths.length; i++) {
+    starts[i] = starts[i - 1] + lengths[i - 1];
+  }
+  return starts;
+};
+
+// Index of the last start at or before `position`
+const findPiece = (starts: Float64Array, position: number): number => {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (starts[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+// Output put together from pieces of the upstream: piece i starts at
+// outputStarts[i] and copies from sourceStarts[i], backwards when reversed
+const mappedSource = (
+  upstream: AudioSource,
+  outputStarts: Float64Array,
+  sourceStarts: Float64Array,
+  reversed = false
+): AudioSource => ({
+  ...shapeOf(upstream),
+  read: async (start, length) => {
+    const end = start + length;
+    const channels = emptyChannels(upstream.numberOfChannels, length);
+    const reads: Promise<void>[] = [];
+
+    for (let i = findPiece(outputStarts, start); i < outputStarts.length && outputStarts[i] < end; i++) {
+      const pieceStart = outputStarts[i];
+      const pieceEnd = i + 1 < outputStarts.length ? outputStarts[i + 1] : upstream.length;
+      const from = Math.max(start, pieceStart);
+      const to = Math.min(end, pieceEnd);
+      const sourceFrom = sourceStarts[i] + (reversed ? pieceEnd - to : from - pieceStart);
+
+      reads.push(upstream.read(sourceFrom, to - from).then(data => {
+        data.forEach((samples, channel) => {
+          if (reversed) samples.reverse();
+          channels[channel].set(samples, from - start);
+        });
+      }));
+    }
+
+    await Promise.all(reads);
+    return channels;
+  }
+});
+
+// Same uniform layout as segmentLayout, and the same encoded positions as
+// reorderPcm and restorePcm
+const reorderSource = (upstream: AudioSource, stage: ReorderStage, key: string | undefined, inverse: boolean) => {
+  const lengths = segmentLengths(upstream.length, segmentSize(upstream, stage));
+  const starts = segmentStarts(lengths);
+  const order = reorderForEncode(lengths.map((_, i) => i), stage, key);
+  const encodedStarts = segmentStarts(order.map(index => lengths[index]));
+
+  if (!inverse) {
+    return mappedSource(upstream, encodedStarts, Float64Array.from(order, index => starts[index]));
+  }
+
+  // Original segment order[j] comes back from encoded position j
+  const sourceStarts = new Float64Array(order.length);
+  order.forEach((index, position) => {
+    sourceStarts[index] = encodedStarts[position];
+  });
+  return mappedSource(upstream, starts, sourceStarts);
+};
+
+// Each channel reads all channels and keeps its own, trading extra reads for
+// not holding more than one chunk
+const channelShuffleSource = (
+  upstream: AudioSource,
+  stage: ChannelShuffleStage,
+  key: string | undefined,
+  inverse: boolean
+): AudioSource => {
+  // Validates the interval against the full channel count
+  segmentSize(upstream, stage);
+  const channelKey = requireKey(key, 'Channel shuffle');
+  const shuffle: ReorderStage = {
+    type: 'shuffle',
+    numberOfParts: 2,
+    interval: stage.interval,
+    intervalUnit: stage.intervalUnit
+  };
+  const sources = Array.from({ length: upstream.numberOfChannels }, (_, index) =>
+    reorderSource(upstream, shuffle, `${channelKey}#${index}`, inverse)
+  );
+
+  return {
+    ...shapeOf(upstream),
+    read: (start, length) =>
+      Promise.all(sources.map((source, index) => source.read(start, length).then(data => data[index])))
+  };
+};
+
+const transformedSource = (
+  upstream: AudioSource,
+  transform: (channels: Float32Array[], start: number) => Float32Array[]
+): AudioSource => ({
+  ...shapeOf(upstream),
+  read: async (start, length) => transform(await upstream.read(start, length), start)
+});
+
+// Calls fn with the part of every segment that falls in a range read from `start`
+const forEachSegment = (
+  size: number,
+  start: number,
+  length: number,
+  fn: (segment: number, from: number, to: number) => void
+) => {
+  for (let segment = Math.floor(start / size); segment * size < start + length; segment++) {
+    fn(segment, Math.max(0, segment * size - start), Math.min(length, (segment + 1) * size - start));
+  }
+};
+
+const polaritySource = (upstream: AudioSource, stage: PolarityStage, key?: string): AudioSource => {
+  const size = segmentSize(upstream, stage);
+  const inverted = selectSegments(stage.pattern, Math.ceil(upstream.length / size), key, 'Keyed polarity inversion');
+
+  return transformedSource(upstream, (channels, start) => {
+    forEachSegment(size, start, channels[0].length, (segment, from, to) => {
+      if (!inverted[segment]) return;
+      for (const channel of channels) invertPolarity(channel.subarray(from, to), stage.grid);
+    });
+    return channels;
+  });
+};
+
+const channelSwapSource = (
+  upstream: AudioSource,
+  stage: ChannelSwapStage,
+  key: string | undefined,
+  inverse: boolean
+): AudioSource => {
+  const size = segmentSize(upstream, stage);
+  const orders = channelOrders(stage, Math.ceil(upstream.length / size), upstream.numberOfChannels, key);
+
+  return transformedSource(upstream, (channels, start) => {
+    const output = channels.map(channel => new Float32Array(channel.length));
+    forEachSegment(size, start, channels[0].length, (segment, from, to) => {
+      orders[segment].forEach((source, target) => {
+        const [a, b] = inverse ? [target, source] : [source, target];
+        output[b].set(channels[a].subarray(from, to), from);
+      });
+    });
+    return output;
+  });
+};
+
+// Reads the frames overlapping the range, wrapping around the end like the
+// in-memory version. The tail past the last whole hop passes through.
+const bandSource = (upstream: AudioSource, stage: BandStage, key: string | undefined, inverse: boolean): AudioSource => {
+  const plan = bandPlan(stage, upstream.length, upstream.sampleRate, upstream.numberOfChannels, key);
+  const scrambled = scrambledLength(plan);
+
+  // Input at unwrapped positions [from, to)
+  const readWrapped = async (from: number, to: number): Promise<Float32Array[]> => {
+    const channels = emptyChannels(upstream.numberOfChannels, to - from);
+    const reads: Promise<void>[] = [];
+    for (let position = from; position < to;) {
+      const wrapped = ((position % scrambled) + scrambled) % scrambled;
+      const count = Math.min(to - position, scrambled - wrapped);
+      const offset = position - from;
+      reads.push(upstream.read(wrapped, count).then(data => {
+        data.forEach((samples, channel) => channels[channel].set(samples, offset));
+      }));
+      position += count;
+    }
+    await Promise.all(reads);
+    return channels;
+  };
+
+  return {
+    ...shapeOf(upstream),
+    read: async (start, length) => {
+      const end = start + length;
+      const scrambledEnd = Math.min(end, scrambled);
+      if (scrambledEnd <= start) return upstream.read(start, length);
+
+      const { firstFrame, lastFrame, from, to } = bandSpan(start, scrambledEnd);
+      const [spans, tail] = await Promise.all([
+        readWrapped(from, to),
+        end > scrambled ? upstream.read(scrambled, end - scrambled) : null
+      ]);
+
+      return spans.map((span, channel) => {
+        const output = new Float32Array(length);
+        output.set(scrambleSpan(span, firstFrame, lastFrame, plan, inverse).subarray(start - from, scrambledEnd - from));
+        if (tail) output.set(tail[channel], scrambledEnd - start);
+        return output;
+      });
+    }
+  };
+};
+
+// Builds the frames overlapping the range whole, from their segments
+const syncEncodeSource = (upstream: AudioSource, stage: SyncStage): AudioSource => {
+  const layout = syncLayout(stage, upstream.sampleRate, upstream.numberOfChannels);
+  const blocks = Math.ceil(upstream.length / layout.block);
+  const length = syncedLength(upstream.length, layout);
+
+  return {
+    ...shapeOf(upstream),
+    length,
+    read: async (start, count) => {
+      const end = start + count;
+      const channels = emptyChannels(upstream.numberOfChannels, count);
+      const place = (samples: Float32Array[], at: number) => {
+        const from = Math.max(start, at);
+        const to = Math.min(end, at + samples[0].length);
+        if (from >= to) return;
+        samples.forEach((data, channel) => channels[channel].set(data.subarray(from - at, to - at), from - start));
+      };
+
+      const first = Math.max(0, Math.floor((start - layout.guard) / syncFrameLength(layout)));
+      const reads: Promise<void>[] = [];
+      for (let block = first; block < blocks && syncFrameStart(layout, block) < end; block++) {
+        const segmentStart = block * layout.block;
+        reads.push(upstream.read(segmentStart, Math.min(layout.block, upstream.length - segmentStart)).then(segment => {
+          place(syncFrame(segment, layout), syncFrameStart(layout, block));
+        }));
+      }
+      place(syncEnding(layout, upstream.numberOfChannels), length - layout.marker - layout.guard);
+
+      await Promise.all(reads);
+      return channels;
+    }
+  };
+};
+
+// Finds the first and end markers up front, for the length, then the rest in
+// order as reads reach them, like decodeSync. Found markers are kept.
+const syncDecodeSource = async (upstream: AudioSource, stage: SyncStage): Promise<AudioSource> => {
+  const layout = syncLayout(stage, upstream.sampleRate, upstream.numberOfChannels);
+
+  const find = async (window: SyncWindow, kind: SyncMarker) => {
+    const { start, length } = windowSpan(window, layout, upstream.length);
+    return findSyncMarker(await upstream.read(start, length), start, window, layout, kind);
+  };
+
+  const endMarker = await find(tailWindow(layout, upstream.length), 'end');
+  if (endMarker === null) throw noSyncMarkers();
+  const first = await find(headWindow(layout, endMarker), 'segment');
+  const found: SyncTrack = { end: endMarker, starts: first === null ? [] : [first] };
+
+  // Chained, so reads running side by side don't search for the same marker twice
+  let track = Promise.resolve(found);
+  const trackTo = (block: number): Promise<SyncTrack> => {
+    track = track.then(async current => {
+      while (
+        current.starts.length > 0
+        && current.starts.length <= block
+        && !isLastSyncBlock(layout, current, current.starts.length - 1)
+      ) {
+        const previous = current.starts[current.starts.length - 1];
+        current.starts.push((await find(nextWindow(layout, previous), 'segment')) ?? expectedSyncMarker(layout, previous));
+      }
+      return current;
+    });
+    return track;
+  };
+
+  return {
+    ...shapeOf(upstream),
+    length: syncDecodedLength(layout, found),
+    read: async (start, count) => {
+      const end = start + count;
+      const channels = emptyChannels(upstream.numberOfChannels, count);
+      const current = await trackTo(Math.floor((end - 1) / layout.block));
+      const reads: Promise<void>[] = [];
+
+      for (let block = Math.floor(start / layout.block); block * layout.block < end && block < current.starts.length; block++) {
+        const span = syncSegmentSpan(layout, current, block);
+        const segmentStart = block * layout.block;
+        const from = Math.max(start, segmentStart);
+        const to = Math.min(end, segmentStart + span.length);
+        const readStart = span.start + from - segmentStart;
+        const readLength = Math.min(to - from, upstream.length - readStart);
+        if (readLength <= 0) continue;
+
+        reads.push(upstream.read(readStart, readLength).then(data => {
+          data.forEach((samples, channel) => channels[channel].set(samples, from - start));
+        }));
+      }
+
+      await Promise.all(reads);
+      return channels;
+    }
+  };
+};
+
+const stageSource = (upstream: AudioSource, stage: Stage, key: string | undefined, inverse: boolean): AudioSource => {
+  switch (stage.type) {
+    case 'reverse':
+      return mappedSource(upstream, Float64Array.of(0), Float64Array.of(0), true);
+    case 'segmentReverse': {
+      const starts = segmentStarts(segmentLengths(upstream.length, segmentSize(upstream, stage)));
+      return mappedSource(upstream, starts, starts, true);
+    }
+    case 'polarity':
+      return polaritySource(upstream, stage, key);
+    case 'channelSwap':
+      return channelSwapSource(upstream, stage, key, inverse);
+    case 'channelShuffle':
+      return channelShuffleSource(upstream, stage, key, inverse);
+    case 'midSide':
+      return transformedSource(upstream, channels =>
+        (inverse ? fromMidSide : toMidSide)({ sampleRate: upstream.sampleRate, channels }, stage.grid).channels
+      );
+    case 'bands':
+      return bandSource(upstream, stage, key, inverse);
+    case 'keystream':
+      return transformedSource(upstream, (channels, start) => keystreamChannels(channels, start, stage, key, inverse));
+    // Decoding has to search the audio first, so decodeSource does that itself
+    case 'sync':
+      return syncEncodeSource(upstream, stage);
+    default:
+      return reorderSource(upstream, stage, key, inverse);
+  }
+};
+
+// Frames [start, end) of the upstream
+const sliceSource = (upstream: AudioSource, start: number, end: number): AudioSource => ({
+  ...shapeOf(upstream),
+  length: end - start,
+  read: (from, length) => upstream.read(start + from, length)
+});
+
+// The upstream with each span replaced by the matching range source
+const splicedSource = (upstream: AudioSource, spans: RangeSpan[], ranges: AudioSource[]): AudioSource => {
+  const parts = spans.flatMap((span, index) => [
+    sliceSource(upstream, index > 0 ? spans[index - 1].end : 0, span.start),
+    ranges[index]
+  ]);
+  parts.push(sliceSource(upstream, spans[spans.length - 1].end, upstream.length));
+  const starts = segmentStarts(parts.map(part => part.length));
+
+  return {
+    ...shapeOf(upstream),
+    length: parts.reduce((sum, part) => sum + part.length, 0),
+    read: async (start, length) => {
+      const end = start + length;
+      const channels = emptyChannels(upstream.numberOfChannels, length);
+      const reads: Promise<void>[] = [];
+
+      for (let i = findPiece(starts, start); i < parts.length && starts[i] < end; i++) {
+        const from = Math.max(start, starts[i]);
+        const to = Math.min(end, starts[i] + parts[i].length);
+        if (from >= to) continue;
+        reads.push(parts[i].read(from - starts[i], to - from).then(data => {
+          data.forEach((samples, channel) => channels[channel].set(samples, from - start));
+        }));
+      }
+
+      await Promise.all(reads);
+      return channels;
+    }
+  };
+};
+
+const encodeStagesSource = (source: AudioSource, stages: Stage[], key: string | undefined): AudioSource =>
+  stages.reduce((current, stage, index) => stageSource(current, stage, stageKey(key, index), false), source);
+
+// Resolves once sync framing, which has to find its markers to know its
+// length, has read what it needs
+const decodeStagesSource = (source: AudioSource, stages: Stage[], key: string | undefined): Promise<AudioSource> =>
+  stages.reduceRight(
+    async (current, stage, index) =>
+      stage.type === 'sync'
+        ? syncDecodeSource(await current, stage)
+        : stageSource(await current, stage, stageKey(key, index), true),
+    Promise.resolve(source)
+  );
+
+export const encodeSource = (source: AudioSource, spec: EncodingSpec, options: TransformOptions = {}): AudioSource => {
+  const { stages, ranges } = spec;
+  if (!ranges?.length) return encodeStagesSource(source, stages, options.key);
+  const spans = rangeSpans(ranges, source.length, source.sampleRate);
+  const encoded = spans.map((span, index) =>
+    encodeStagesSource(sliceSource(source, span.start, span.end), stages, rangeKey(options.key, index))
+  );
+  return splicedSource(source, spans, encoded);
+};
+
+// Inverts each stage, last stage first
+export const decodeSource = async (
+  source: AudioSource,
+  spec: EncodingSpec,
+  options: TransformOptions = {}
+): Promise<AudioSource> => {
+  const { stages, ranges } = spec;
+  if (!ranges?.length) return decodeStagesSource(source, stages, options.key);
+  const spans = encodedRangeSpans(ranges, stages, source.length, source.sampleRate, source.numberOfChannels);
+  const decoded = await Promise.all(spans.map((span, index) =>
+    decodeStagesSource(sliceSource(source, span.start, span.end), stages, rangeKey(options.key, index))
+  ));
+  return splicedSource(source, spans, decoded);
+};
+
+// Writes a source as WAV or FLAC, one chunk at a time. Each write is awaited
+// before the next chunk is read, so a slow sink holds back the reading.
+export const writeAudioStream = async (
+  source: AudioSource,
+  write: (bytes: Uint8Array) => Promise<void>,
+  metadata: WavMetadata = {},
+  format: OutputFormat = DEFAULT_OUTPUT_FORMAT,
+  onProgress?: ProgressCallback
+) => {
+  const { sampleRate, numberOfChannels, length: frameCount } = source;
+  await write(audioFileHeader(sampleRate, numberOfChannels, frameCount, metadata, format));
+  for (let start = 0; start < frameCount; start += STREAM_CHUNK_FRAMES) {
+    const length = Math.min(STREAM_CHUNK_FRAMES, frameCount - start);
+    await write(encodeAudioFrames(await source.read(start, length), format, start));
+    onProgress?.((start + length) / frameCount);
+  }
+
+  const trailer = audioFileTrailer(frameCount, numberOfChannels, format);
+  if (trailer.length > 0) await write(trailer);
+};
@@ -0,0 +1,278 @@
+import { intervalToSamples, pcmLength } from './segments';
+import type { PcmAudio, SyncStage } from './types';
+
+// Sync framing for audio that goes through lossy codecs. Every segment is framed as
+//
+//   marker | pad | segment | pad
+//
+// between a leading guard band and a closing end marker plus guard. Markers are
+// short chirps, rising before each segment and falling at the end. Pads fade
+// the segment's edge sample to zero, so the signal stays continuous and a
+// codec's pre-echo lands in the pads rather than in the next segment. Decode
+// finds every marker by correlation and cuts each segment from just after its
+// marker, wherever the codec moved it. Durations are in seconds, so the file
+// can come back at a different sample rate.
+
+const MARKER_SECONDS = 0.02;
+const GUARD_SECONDS = 0.02;
+const MARKER_LOW_HZ = 400;
+const MARKER_HIGH_HZ = 3000;
+const MARKER_LEVEL = 0.5;
+
+// How far decode looks for the first and end markers from either end of the
+// file, and for each marker around where the one before it puts it
+const HEAD_SECONDS = 0.5;
+const TAIL_SECONDS = 1;
+const SEARCH_SECONDS = 0.004;
+
+// Weaker correlations don't count as a marker, and a window that wants the
+// earliest marker takes the first one this close to the best
+const MIN_MARKER_SCORE = 0.5;
+const EARLIEST_MARKER_SCORE = 0.8;
+
+export type SyncMarker = 'segment' | 'end';
+
+export interface SyncLayout {
+  sampleRate: number;
+  marker: number;
+  guard: number;
+  block: number; // segment length
+  search: number;
+}
+
+// Marker start positions to try, [from, to)
+export interface SyncWindow {
+  from: number;
+  to: number;
+  earliest?: boolean; // take the first strong match rather than the best
+}
+
+// Marker positions found so far, and where the end marker is
+export interface SyncTrack {
+  end: number;
+  starts: number[];
+}
+
+export const syncLayout = (stage: SyncStage, sampleRate: number, numberOfChannels: number): SyncLayout => ({
+  sampleRate,
+  marker: Math.round(MARKER_SECONDS * sampleRate),
+  guard: Math.round(GUARD_SECONDS * sampleRate),
+  block: intervalToSamples(stage.interval, stage.intervalUnit, sampleRate, numberOfChannels),
+  search: Math.max(1, Math.round(SEARCH_SECONDS * sampleRate))
+});
+
+const overhead = (layout: SyncLayout): number => layout.marker + 2 * layout.guard;
+
+// Distance from one segment marker to the next
+export const syncFrameLength = (layout: SyncLayout): number => overhead(layout) + layout.block;
+
+export const syncedLength = (length: number, layout: SyncLayout): number =>
+  length + Math.ceil(length / layout.block) * overhead(layout) + layout.marker + 2 * layout.guard;
+
+// Where segment `block`'s frame, and the segment itself, start in the encoded audio
+export const syncFrameStart = (layout: SyncLayout, block: number): number => layout.guard + block * syncFrameLength(layout);
+
+export const syncSegmentStart = (layout: SyncLayout, block: number): number =>
+  syncFrameStart(layout, block) + layout.marker + layout.guard;
+
+// Hann-windowed linear chirp. The top frequency stays clear of Nyquist at low rates.
+const chirp = (layout: SyncLayout, kind: SyncMarker): Float32Array => {
+  const { marker: length, sampleRate } = layout;
+  const high = Math.min(MARKER_HIGH_HZ, 0.4 * sampleRate);
+  const [from, to] = kind === 'segment' ? [MARKER_LOW_HZ, high] : [high, MARKER_LOW_HZ];
+  const duration = length / sampleRate;
+  return Float32Array.from({ length }, (_, i) => {
+    const time = i / sampleRate;
+    const phase = 2 * Math.PI * (from * time + ((to - from) * time * time) / (2 * duration));
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (i + 0.5)) / length);
+    return MARKER_LEVEL * window * Math.sin(phase);
+  });
+};
+
+// Raised-cosine ramp from just above 0 to just below 1
+const fade = (i: number, length: number): number => 0.5 - 0.5 * Math.cos((Math.PI * (i + 1)) / (length + 1));
+
+// A segment's frame: marker, pad, the segment, pad
+export const syncFrame = (segment: Float32Array[], layout: SyncLayout): Float32Array[] => {
+  const marker = chirp(layout, 'segment');
+  const { guard } = layout;
+  return segment.map(samples => {
+    const frame = new Float32Array(overhead(layout) + samples.length);
+    frame.set(marker);
+    frame.set(samples, marker.length + guard);
+    const first = samples.length > 0 ? samples[0] : 0;
+    const last = samples.length > 0 ? samples[samples.length - 1] : 0;
+    for (let i = 0; i < guard; i++) {
+      frame[marker.length + i] = first * fade(i, guard);
+      frame[frame.length - 1 - i] = last * fade(i, guard);
+    }
+    return frame;
+  });
+};
+
+// The end marker and the guard after it
+export const syncEnding = (layout: SyncLayout, numberOfChannels: number): Float32Array[] => {
+  const marker = chirp(layout, 'end');
+  return Array.from({ length: numberOfChannels }, () => {
+    const ending = new Float32Array(layout.marker + layout.guard);
+    ending.set(marker);
+    return ending;
+  });
+};
+
+// Where to look for the first segment marker, which comes before the end
+// marker. Short segments put more than one marker in the window.
+export const headWindow = (layout: SyncLayout, end: number): SyncWindow => ({
+  from: 0,
+  to: Math.min(end, layout.guard + Math.round(HEAD_SECONDS * layout.sampleRate)),
+  earliest: true
+});
+
+export const tailWindow = (layout: SyncLayout, encodedLength: number): SyncWindow => ({
+  from: Math.max(0, encodedLength - layout.guard - layout.marker - Math.round(TAIL_SECONDS * layout.sampleRate)),
+  to: Math.max(0, encodedLength - layout.marker + 1)
+});
+
+// Where the next segment marker should be, and where to look for it. A marker
+// lost to the codec is taken to be right where it should be.
+export const expectedSyncMarker = (layout: SyncLayout, previous: number): number => previous + syncFrameLength(layout);
+
+export const nextWindow = (layout: SyncLayout, previous: number): SyncWindow => ({
+  from: expectedSyncMarker(layout, previous) - layout.search,
+  to: expectedSyncMarker(layout, previous) + layout.search + 1
+});
+
+// The frames to read to search a window
+export const windowSpan = (
+  window: SyncWindow,
+  layout: SyncLayout,
+  encodedLength: number
+): { start: number; length: number } => {
+  const start = Math.max(0, Math.min(window.from, encodedLength));
+  const end = Math.min(encodedLength, Math.max(start, window.to + layout.marker - 1));
+  return { start, length: end - start };
+};
+
+// Normalized correlation of the marker with the mono mix at `offset`
+const correlation = (mono: Float32Array, marker: Float32Array, markerEnergy: number, offset: number): number => {
+  let dot = 0;
+  let energy = 0;
+  for (let i = 0; i < marker.length; i++) {
+    const sample = mono[offset + i];
+    dot += sample * marker[i];
+    energy += sample * sample;
+  }
+  return energy > 0 ? dot / Math.sqrt(energy * markerEnergy) : 0;
+};
+
+// Position of the best match in the window, given the frames read from `offset`,
+// or null when nothing there looks like a marker. Tries a coarse grid finer
+// than the chirp's shortest period, then every position around the hit.
+export const findSyncMarker = (
+  channels: Float32Array[],
+  offset: number,
+  window: SyncWindow,
+  layout: SyncLayout,
+  kind: SyncMarker
+): number | null => {
+  const marker = chirp(layout, kind);
+  const markerEnergy = marker.reduce((sum, sample) => sum + sample * sample, 0);
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length;
+  }
+
+  const from = Math.max(window.from, offset);
+  const to = Math.min(window.to, offset + length - marker.length + 1);
+  const step = Math.max(1, Math.floor(layout.sampleRate / (4 * MARKER_HIGH_HZ)));
+
+  const score = (position: number) => correlation(mono, marker, markerEnergy, position - offset);
+  const coarse: { position: number; score: number }[] = [];
+  for (let position = from; position < to; position += step) coarse.push({ position, score: score(position) });
+  if (coarse.length === 0) return null;
+
+  const top = coarse.reduce((best, hit) => (hit.score > best.score ? hit : best));
+  const hit = window.earliest
+    ? coarse.find(({ score }) => score >= Math.max(MIN_MARKER_SCORE, EARLIEST_MARKER_SCORE * top.score)) ?? top
+    : top;
+  // The earliest hit can sit on the side of its peak
+  const radius = window.earliest ? layout.search : step - 1;
+
+  let best = hit;
+  for (let position = Math.max(from, hit.position - radius); position < Math.min(to, hit.position + radius + 1); position++) {
+    const candidate = score(position);
+    if (candidate > best.score) best = { position, score: candidate };
+  }
+  return best.score >= MIN_MARKER_SCORE ? best.position : null;
+};
+
+export const noSyncMarkers = () => new Error('No sync markers found: the audio wasn\'t encoded with sync markers');
+
+// Whether a found marker begins the last segment, the one the end marker closes
+export const isLastSyncBlock = (layout: SyncLayout, track: SyncTrack, block: number): boolean =>
+  track.end - track.starts[block] < syncFrameLength(layout) + overhead(layout) / 2;
+
+// Length of the decoded audio, from the first and end markers alone
+export const syncDecodedLength = (layout: SyncLayout, track: SyncTrack): number => {
+  if (track.starts.length === 0) return 0;
+  const framed = track.end - track.starts[0] - overhead(layout);
+  const whole = Math.max(0, Math.floor((framed - 1) / syncFrameLength(layout)));
+  return whole * layout.block + Math.max(0, Math.min(layout.block, framed - whole * syncFrameLength(layout)));
+};
+
+// Where a found segment starts in the encoded audio and how long it is. Every
+// segment but the last is a whole block.
+export const syncSegmentSpan = (layout: SyncLayout, track: SyncTrack, block: number) => {
+  const start = track.starts[block] + layout.marker + layout.guard;
+  const length = isLastSyncBlock(layout, track, block)
+    ? Math.max(0, Math.min(layout.block, track.end - start - layout.guard))
+    : layout.block;
+  return { start, length };
+};
+
+export const encodeSync = (pcm: PcmAudio, stage: SyncStage): PcmAudio => {
+  const layout = syncLayout(stage, pcm.sampleRate, pcm.channels.length);
+  const length = pcmLength(pcm);
+  const channels = pcm.channels.map(() => new Float32Array(syncedLength(length, layout)));
+
+  const blocks = Math.ceil(length / layout.block);
+  for (let block = 0; block < blocks; block++) {
+    const segment = pcm.channels.map(channel => channel.subarray(block * layout.block, (block + 1) * layout.block));
+    syncFrame(segment, layout).forEach((frame, channel) => channels[channel].set(frame, syncFrameStart(layout, block)));
+  }
+  const ending = syncEnding(layout, pcm.channels.length);
+  ending.forEach((samples, channel) => channels[channel].set(samples, channels[channel].length - samples.length));
+
+  return { sampleRate: pcm.sampleRate, channels };
+};
+
+export const decodeSync = (pcm: PcmAudio, stage: SyncStage): PcmAudio => {
+  const layout = syncLayout(stage, pcm.sampleRate, pcm.channels.length);
+  const encodedLength = pcmLength(pcm);
+  const find = (window: SyncWindow, kind: SyncMarker) => {
+    const { start, length } = windowSpan(window, layout, encodedLength);
+    const channels = pcm.channels.map(channel => channel.subarray(start, start + length));
+    return findSyncMarker(channels, start, window, layout, kind);
+  };
+
+  const end = find(tailWindow(layout, encodedLength), 'end');
+  if (end === null) throw noSyncMarkers();
+  const first = find(headWindow(layout, end), 'segment');
+  const track: SyncTrack = { end, starts: first === null ? [] : [first] };
+
+  while (track.starts.length > 0 && !isLastSyncBlock(layout, track, track.starts.length - 1)) {
+    const previous = track.starts[track.starts.length - 1];
+    track.starts.push(find(nextWindow(layout, previous), 'segment') ?? expectedSyncMarker(layout, previous));
+  }
+
+  const spans = track.starts.map((_, block) => syncSegmentSpan(layout, track, block));
+  const channels = pcm.channels.map(() => new Float32Array(spans.reduce((sum, span) => sum + span.length, 0)));
+  let position = 0;
+  for (const span of spans) {
+    pcm.channels.forEach((channel, index) => channels[index].set(channel.subarray(span.start, span.start + span.length), position));
+    position += span.length;
+  }
+
+  return { sampleRate: pcm.sampleRate, channels };
+};
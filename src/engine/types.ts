@@ -0,0 +1,135 @@
+// Plain PCM audio, one Float32Array per channel. Works anywhere typed arrays do.
+export interface PcmAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+// Segment reorderings
+export type EncodingType = 'split' | 'oddEven' | 'shuffle';
+
+export type IntervalUnit = 'seconds' | 'samples';
+
+// How a stage cuts the audio into segments
+export interface Segmentation {
+  interval: number;
+  intervalUnit: IntervalUnit;
+}
+
+export interface ReorderStage extends Segmentation {
+  type: EncodingType;
+  numberOfParts: number; // only used by 'split'
+}
+
+// Whole-file sample reversal
+export interface ReverseStage {
+  type: 'reverse';
+}
+
+// Reverses the samples of every segment in place
+export interface SegmentReverseStage extends Segmentation {
+  type: 'segmentReverse';
+}
+
+// Bit depth of the integers polarity, mid/side and keystream work on. It has to
+// match the file the encoded audio is written to; 32-bit and float files use
+// 24, the most a Float32Array holds exactly.
+export type SampleGrid = 16 | 24;
+
+// Which segments a per-segment transform touches
+export type SegmentPattern = 'alternate' | 'keyed';
+
+// Inverts the polarity of every other segment, or of a keyed random subset
+export interface PolarityStage extends Segmentation {
+  type: 'polarity';
+  pattern: SegmentPattern;
+  grid: SampleGrid;
+}
+
+// Permutes the channels of every other segment, or of keyed segments.
+// For stereo that swaps L/R.
+export interface ChannelSwapStage extends Segmentation {
+  type: 'channelSwap';
+  pattern: SegmentPattern;
+}
+
+// Keyed shuffle with an independent permutation per channel
+export interface ChannelShuffleStage extends Segmentation {
+  type: 'channelShuffle';
+}
+
+// Converts L/R to mid/side so later stages scramble in M/S space
+export interface MidSideStage {
+  type: 'midSide';
+  grid: SampleGrid;
+}
+
+// Keyed noise added to (or XORed with) every sample. Exact when it's the last
+// stage, since it works on the integers the writer produces.
+export type KeystreamMode = 'add' | 'xor';
+
+export interface KeystreamStage {
+  type: 'keystream';
+  mode: KeystreamMode;
+  grid: SampleGrid;
+}
+
+// Keyed, time-varying permutation of MDCT frequency bands. The mapping changes
+// every interval. Not bit-exact: the scrambled signal is rounded, and clipped
+// when it exceeds full scale, on its way into the file.
+export interface BandStage extends Segmentation {
+  type: 'bands';
+  bands: number;
+  invert: boolean; // also flip keyed bands upside down
+}
+
+// Frames every segment with a chirp marker and guard bands, so decode can find
+// the segments again after a lossy codec has shifted and smeared them. Adds
+// about 60 ms per segment.
+export interface SyncStage extends Segmentation {
+  type: 'sync';
+}
+
+export type Stage =
+  | ReorderStage
+  | ReverseStage
+  | SegmentReverseStage
+  | PolarityStage
+  | ChannelSwapStage
+  | ChannelShuffleStage
+  | MidSideStage
+  | BandStage
+  | KeystreamStage
+  | SyncStage;
+
+export type StageType = Stage['type'];
+
+// Stages that work on segments and carry a Segmentation
+export type SegmentedStage = Exclude<Stage, ReverseStage | MidSideStage | KeystreamStage>;
+
+// A stretch of the audio, in seconds from the start
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// Stages run in order on encode and are inverted in reverse order on decode.
+// With ranges, each range runs through the stages on its own and the audio
+// between them is left as it is.
+export interface EncodingSpec {
+  stages: Stage[];
+  ranges?: TimeRange[]; // in order and not overlapping
+}
+
+// Called with the fraction of the work done, from 0 to 1
+export type ProgressCallback = (fraction: number) => void;
+
+export interface TransformOptions {
+  key?: string; // passphrase for keyed stages such as 'shuffle'
+  onProgress?: ProgressCallback;
+}
+
+export interface AudioSegment {
+  start: number; // sample offsets in the source
+  end: number;
+  data: Float32Array[];
+}
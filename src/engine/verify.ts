@@ -0,0 +1,37 @@
+import { parseSpec } from './code';
+import { compareAudio } from './compare';
+import type { AudioComparison } from './compare';
+import { PCM_16, storedPcm } from './quantize';
+import type { SampleFormat } from './quantize';
+import { decode, isLossy } from './scramble';
+import type { PcmAudio, TransformOptions } from './types';
+
+// Lossy stages and dither can't come back bit-exact; this close counts as a pass
+export const LOSSY_PASS_SNR_DB = 40;
+
+export interface RoundTripResult {
+  passed: boolean;
+  lossy: boolean;
+  comparison: AudioComparison | null; // null when the code doesn't parse back
+}
+
+// Decodes freshly encoded audio with the spec parsed back from its generated
+// code, so a code that doesn't describe the encoding fails too. The source is
+// compared as `format` stores it without dither, which is the best any decode
+// can return.
+export const verifyRoundTrip = (
+  source: PcmAudio,
+  encoded: PcmAudio,
+  code: string,
+  options: TransformOptions = {},
+  format: SampleFormat = PCM_16
+): RoundTripResult => {
+  const parsed = parseSpec(code);
+  if (!parsed.ok) return { passed: false, lossy: false, comparison: null };
+  const { spec } = parsed;
+
+  const lossy = isLossy(spec);
+  const comparison = compareAudio(storedPcm(source, { ...format, dither: false }), decode(encoded, spec, options));
+  const passed = comparison.bitExact || ((lossy || format.dither) && comparison.snrDb >= LOSSY_PASS_SNR_DB);
+  return { passed, lossy, comparison };
+};
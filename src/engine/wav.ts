@@ -0,0 +1,367 @@
+import { PCM_16, quantizeChannels } from './quantize';
+import type { SampleFormat } from './quantize';
+import { pcmFrameCount, readPcmFrames, UnsupportedAudioError } from './samples';
+import type { PcmFileFormat, SampleEncoding } from './samples';
+import type { PcmAudio } from './types';
+
+const writeString = (view: DataView, offset: number, string: string) => {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+};
+
+const readString = (view: DataView, offset: number, length: number): string => {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return result;
+};
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_ALAW = 6;
+const WAVE_FORMAT_MULAW = 7;
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE;
+
+// KSDATAFORMAT_SUBTYPE_PCM and _IEEE_FLOAT share everything after the format tag
+const SUBFORMAT_GUID_TAIL = [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xAA, 0x00, 0x38, 0x9B, 0x71];
+
+// Custom chunk holding the encoding code, so receivers don't need it out-of-band.
+// Players skip chunks they don't know, as the RIFF spec requires.
+export const ENCODING_CHUNK_ID = 'aenc';
+
+export interface WavMetadata {
+  code?: string;
+}
+
+interface WavChunk {
+  id: string;
+  offset: number; // start of the chunk body
+  size: number;
+}
+
+// Chunk with its header, body padded to an even length
+const chunkBytes = (id: string, body: Uint8Array): Uint8Array => {
+  const bytes = new Uint8Array(8 + body.length + (body.length % 2));
+  const view = new DataView(bytes.buffer);
+  writeString(view, 0, id);
+  view.setUint32(4, body.length, true);
+  bytes.set(body, 8);
+  return bytes;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const textBytes = (text: string, nulTerminated = false): Uint8Array =>
+  new TextEncoder().encode(nulTerminated ? `${text}\0` : text);
+
+const metadataChunks = (metadata: WavMetadata): Uint8Array => {
+  if (!metadata.code) return new Uint8Array(0);
+
+  const info = concatBytes([
+    textBytes('INFO'),
+    chunkBytes('ISFT', textBytes('Audio Encode', true)),
+    chunkBytes('ICMT', textBytes(`Audio Encode code: ${metadata.code}`, true))
+  ]);
+
+  return concatBytes([
+    chunkBytes(ENCODING_CHUNK_ID, textBytes(metadata.code)),
+    chunkBytes('LIST', info)
+  ]);
+};
+
+const dataLength = (frameCount: number, numberOfChannels: number, format: SampleFormat): number =>
+  frameCount * numberOfChannels * (format.bitsPerSample / 8);
+
+// 16-bit stays plain PCM, which every reader handles. Deeper and float formats
+// use WAVE_FORMAT_EXTENSIBLE, as Microsoft asks for anything past 16 bits.
+const fmtChunk = (sampleRate: number, numberOfChannels: number, format: SampleFormat): Uint8Array => {
+  const formatTag = format.float ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+  const extensible = format.bitsPerSample > 16;
+  const blockAlign = numberOfChannels * (format.bitsPerSample / 8);
+
+  const body = new Uint8Array(extensible ? 40 : 16);
+  const view = new DataView(body.buffer);
+  view.setUint16(0, extensible ? WAVE_FORMAT_EXTENSIBLE : formatTag, true);
+  view.setUint16(2, numberOfChannels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * blockAlign, true); // byte rate
+  view.setUint16(12, blockAlign, true);
+  view.setUint16(14, format.bitsPerSample, true);
+  if (extensible) {
+    view.setUint16(16, 22, true); // extension size
+    view.setUint16(18, format.bitsPerSample, true); // valid bits
+    view.setUint32(20, numberOfChannels === 1 ? 0x4 : numberOfChannels === 2 ? 0x3 : 0, true); // speaker mask
+    view.setUint16(24, formatTag, true);
+    body.set(SUBFORMAT_GUID_TAIL, 26);
+  }
+  return chunkBytes('fmt ', body);
+};
+
+// RIFF header, fmt chunk, metadata chunks and the data chunk header of a WAV
+// ready for frameCount frames of sample data
+export const wavHeader = (
+  sampleRate: number,
+  numberOfChannels: number,
+  frameCount: number,
+  metadata: WavMetadata = {},
+  format: SampleFormat = PCM_16
+): Uint8Array => {
+  const length = dataLength(frameCount, numberOfChannels, format);
+  const factChunk = new Uint8Array(4);
+  new DataView(factChunk.buffer).setUint32(0, frameCount, true);
+
+  const chunks = concatBytes([
+    fmtChunk(sampleRate, numberOfChannels, format),
+    // Required for anything but integer PCM
+    format.float ? chunkBytes('fact', factChunk) : new Uint8Array(0),
+    // Metadata chunks go before "data" so they can be read from the header alone
+    metadataChunks(metadata)
+  ]);
+  const dataHeader = 12 + chunks.length;
+  const riffSize = dataHeader + length + (length % 2);
+  if (riffSize > 0xFFFFFFFF) {
+    throw new Error('Output exceeds the 4 GB WAV size limit');
+  }
+
+  const header = new Uint8Array(dataHeader + 8);
+  const view = new DataView(header.buffer);
+
+  // "RIFF" chunk descriptor
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, riffSize, true);
+  writeString(view, 8, 'WAVE');
+
+  header.set(chunks, 12);
+
+  // "data" sub-chunk
+  writeString(view, dataHeader, 'data');
+  view.setUint32(dataHeader + 4, length, true);
+
+  return header;
+};
+
+// The pad byte after an odd-length data chunk, once all frames are written
+export const wavTrailer = (frameCount: number, numberOfChannels: number, format: SampleFormat = PCM_16): Uint8Array =>
+  new Uint8Array(dataLength(frameCount, numberOfChannels, format) % 2);
+
+// Interleaved samples, written at `offset`. `position` is the first frame's
+// place in the file, which seeds the dither.
+const writeFrames = (
+  view: DataView,
+  offset: number,
+  channels: Float32Array[],
+  format: SampleFormat,
+  position: number
+) => {
+  const numberOfChannels = channels.length;
+  const frameCount = channels[0].length;
+  const bytesPerSample = format.bitsPerSample / 8;
+
+  if (format.float) {
+    for (let i = 0; i < frameCount; i++) {
+      for (let channel = 0; channel < numberOfChannels; channel++) {
+        view.setFloat32(offset + (i * numberOfChannels + channel) * 4, channels[channel][i], true);
+      }
+    }
+    return;
+  }
+
+  const samples = quantizeChannels(channels, format.bitsPerSample, format.dither, position);
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const at = offset + (i * numberOfChannels + channel) * bytesPerSample;
+      const sample = samples[channel][i];
+      if (bytesPerSample === 2) {
+        view.setInt16(at, sample, true);
+      } else if (bytesPerSample === 3) {
+        view.setUint8(at, sample & 0xFF);
+        view.setUint8(at + 1, (sample >> 8) & 0xFF);
+        view.setUint8(at + 2, (sample >> 16) & 0xFF);
+      } else {
+        view.setInt32(at, sample, true);
+      }
+    }
+  }
+};
+
+// Sample data for the frames of a wavHeader, one chunk at a time, starting at frame `position`
+export const encodeWavFrames = (channels: Float32Array[], format: SampleFormat = PCM_16, position = 0): Uint8Array => {
+  const bytes = new Uint8Array(dataLength(channels[0].length, channels.length, format));
+  writeFrames(new DataView(bytes.buffer), 0, channels, format, position);
+  return bytes;
+};
+
+// Writes a WAV, with the encoding chunk and a LIST/INFO comment when a code is given
+export const encodeWav = (pcm: PcmAudio, metadata: WavMetadata = {}, format: SampleFormat = PCM_16): ArrayBuffer => {
+  const frameCount = pcm.channels[0].length;
+  const numberOfChannels = pcm.channels.length;
+  const header = wavHeader(pcm.sampleRate, numberOfChannels, frameCount, metadata, format);
+  const length = dataLength(frameCount, numberOfChannels, format);
+
+  const wav = new ArrayBuffer(header.length + length + (length % 2));
+  new Uint8Array(wav).set(header);
+  writeFrames(new DataView(wav), header.length, pcm.channels, format, 0);
+  return wav;
+};
+
+// RF64 and BW64 are WAV with 64-bit sizes for files past 4 GB
+const isWave = (view: DataView): boolean =>
+  view.byteLength >= 12 && ['RIFF', 'RF64', 'BW64'].includes(readString(view, 0, 4)) && readString(view, 8, 4) === 'WAVE';
+
+// Lists top-level chunks. Stops at the end of the buffer, so a truncated
+// header slice still yields every chunk that starts inside it.
+const readChunks = (view: DataView): WavChunk[] => {
+  const chunks: WavChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ id, offset: offset + 8, size });
+
+    // Chunks are word aligned
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+};
+
+// Returns the embedded encoding code, or null if the file has none.
+// Only needs the bytes up to the end of the encoding chunk.
+export const readWavCode = (buffer: ArrayBuffer): string | null => {
+  const view = new DataView(buffer);
+  if (!isWave(view)) return null;
+
+  const chunk = readChunks(view).find(({ id }) => id === ENCODING_CHUNK_ID);
+  if (!chunk || chunk.offset + chunk.size > buffer.byteLength) return null;
+
+  return new TextDecoder().decode(new Uint8Array(buffer, chunk.offset, chunk.size));
+};
+
+// Compressed formats seen in the wild, named in the error for them
+const COMPRESSED_FORMATS: Record<number, string> = {
+  0x0002: 'Microsoft ADPCM',
+  0x0011: 'IMA ADPCM',
+  0x0031: 'GSM 6.10',
+  0x0050: 'MPEG',
+  0x0055: 'MP3',
+  0x00FF: 'AAC',
+  0x0161: 'WMA',
+  0x2000: 'AC-3',
+  0x2001: 'DTS'
+};
+
+const sampleEncoding = (formatTag: number, bitsPerSample: number): SampleEncoding => {
+  if (formatTag === WAVE_FORMAT_PCM) {
+    if (bitsPerSample < 1 || bitsPerSample > 32) {
+      throw new UnsupportedAudioError(`${bitsPerSample}-bit PCM WAV isn't supported`);
+    }
+    return bitsPerSample <= 8 ? 'unsigned' : 'signed';
+  }
+  if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample !== 32 && bitsPerSample !== 64) {
+      throw new UnsupportedAudioError(`${bitsPerSample}-bit float WAV isn't supported`);
+    }
+    return 'float';
+  }
+  if (formatTag === WAVE_FORMAT_ALAW) return 'alaw';
+  if (formatTag === WAVE_FORMAT_MULAW) return 'mulaw';
+
+  const name = COMPRESSED_FORMATS[formatTag] ?? `format 0x${formatTag.toString(16).padStart(4, '0')}`;
+  throw new UnsupportedAudioError(`WAV files compressed with ${name} aren't supported, only PCM and float`);
+};
+
+// Reads and validates the fmt and data chunk headers. `fileSize` bounds the
+// data chunk when `view` only holds the start of the file.
+const readWavFormat = (view: DataView, fileSize = view.byteLength): PcmFileFormat => {
+  if (!isWave(view)) {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let formatTag = 0;
+  let numberOfChannels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let frameBytes = 0;
+  let dataOffset = -1;
+  let dataSize = 0;
+  let ds64DataSize: number | null = null;
+
+  for (const chunk of readChunks(view)) {
+    if (chunk.id === 'ds64' && chunk.offset + 16 <= view.byteLength) {
+      ds64DataSize = Number(view.getBigUint64(chunk.offset + 8, true));
+    } else if (chunk.id === 'fmt ') {
+      formatTag = view.getUint16(chunk.offset, true);
+      numberOfChannels = view.getUint16(chunk.offset + 2, true);
+      sampleRate = view.getUint32(chunk.offset + 4, true);
+      frameBytes = view.getUint16(chunk.offset + 12, true);
+      bitsPerSample = view.getUint16(chunk.offset + 14, true);
+      // The real format tag starts the sub-format GUID
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && chunk.size >= 40) {
+        formatTag = view.getUint16(chunk.offset + 24, true);
+      }
+    } else if (chunk.id === 'data') {
+      dataOffset = chunk.offset;
+      dataSize = chunk.size;
+    }
+  }
+
+  if (!numberOfChannels || !sampleRate) throw new Error('Missing fmt chunk');
+  if (dataOffset < 0) throw new Error('Missing data chunk');
+
+  const encoding = sampleEncoding(formatTag, bitsPerSample);
+  // Samples sit in whole bytes; block align says how many when bits aren't a multiple of 8
+  const bytesPerSample = encoding === 'alaw' || encoding === 'mulaw'
+    ? 1
+    : Math.max(Math.ceil(bitsPerSample / 8), Math.floor(frameBytes / numberOfChannels));
+
+  // RF64 keeps the real size in ds64, and streaming writers leave it at 0 or
+  // all ones; either way the data runs to the end of the file
+  if (dataSize === 0xFFFFFFFF && ds64DataSize !== null) dataSize = ds64DataSize;
+  else if (dataSize === 0 || dataSize === 0xFFFFFFFF) dataSize = fileSize - dataOffset;
+
+  return {
+    encoding,
+    bytesPerSample,
+    littleEndian: true,
+    numberOfChannels,
+    sampleRate,
+    dataOffset,
+    dataLength: Math.min(dataSize, fileSize - dataOffset)
+  };
+};
+
+// Whether decodeWav can read this file, without decoding the samples
+export const isSupportedWav = (buffer: ArrayBuffer): boolean => {
+  try {
+    readWavFormat(new DataView(buffer));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Reads the format from the first bytes of a file, up to the data chunk header
+export const readWavHeader = (header: ArrayBuffer, fileSize: number): PcmFileFormat =>
+  readWavFormat(new DataView(header), fileSize);
+
+export const isWav = (buffer: ArrayBuffer): boolean => isWave(new DataView(buffer));
+
+// Reads integer PCM of any depth up to 32 bits, 32/64-bit float and A-law/µ-law
+// WAV, including WAVE_FORMAT_EXTENSIBLE and RF64. Unknown chunks are skipped.
+export const decodeWav = (buffer: ArrayBuffer): PcmAudio => {
+  const view = new DataView(buffer);
+  const format = readWavFormat(view);
+  return {
+    sampleRate: format.sampleRate,
+    channels: readPcmFrames(view, format.dataOffset, pcmFrameCount(format), format)
+  };
+};
@@ -0,0 +1,33 @@
+import { pcmLength } from './segments';
+import type { PcmAudio } from './types';
+
+// Min/max peaks of all channels, one pair per column
+export interface Waveform {
+  sampleRate: number;
+  length: number; // samples per channel in the audio it was drawn from
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export const waveform = (pcm: PcmAudio, columns = 1000): Waveform => {
+  const length = pcmLength(pcm);
+  const count = Math.max(1, Math.min(columns, length));
+  const min = new Float32Array(count);
+  const max = new Float32Array(count);
+
+  for (let column = 0; column < count; column++) {
+    const start = Math.floor((column * length) / count);
+    const end = Math.floor(((column + 1) * length) / count);
+    let low = 0;
+    let high = 0;
+    for (const channel of pcm.channels) {
+      for (let i = start; i < end; i++) {
+        if (channel[i] < low) low = channel[i];
+        if (channel[i] > high) high = channel[i];
+      }
+    }
+    min[column] = low;
+    max[column] = high;
+  }
+  return { sampleRate: pcm.sampleRate, length, min, max };
+};
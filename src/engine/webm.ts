@@ -0,0 +1,271 @@
+import { FLAC_CODE_FIELD } from './flac';
+import type { WavMetadata } from './wav';
+
+// Minimal WebM writer for a single Opus track, the compressed counterpart of
+// the WAV and FLAC writers. Packets come from an Opus encoder elsewhere (the
+// browser's, in the app); this only lays out the Matroska elements: the EBML
+// header, then a Segment with Info, Tracks, Tags and Clusters of SimpleBlocks.
+// Every size is known up front, so nothing is patched afterwards.
+
+// Opus always decodes at 48 kHz, whatever the input rate was
+export const OPUS_SAMPLE_RATE = 48000;
+
+// libopus's lookahead, for encoders that don't report their own pre-skip
+const DEFAULT_PRE_SKIP = 312;
+
+// 80 ms, as the Matroska Opus mapping recommends
+const SEEK_PRE_ROLL_NS = 80000000;
+
+// Timestamps are in milliseconds; a cluster's blocks are 16-bit offsets from its own
+const TIMECODE_SCALE_NS = 1000000;
+const CLUSTER_MS = 5000;
+
+const ID = {
+  ebml: 0x1A45DFA3,
+  ebmlVersion: 0x4286,
+  ebmlReadVersion: 0x42F7,
+  ebmlMaxIdLength: 0x42F2,
+  ebmlMaxSizeLength: 0x42F3,
+  docType: 0x4282,
+  docTypeVersion: 0x4287,
+  docTypeReadVersion: 0x4285,
+  segment: 0x18538067,
+  info: 0x1549A966,
+  timecodeScale: 0x2AD7B1,
+  duration: 0x4489,
+  muxingApp: 0x4D80,
+  writingApp: 0x5741,
+  tracks: 0x1654AE6B,
+  trackEntry: 0xAE,
+  trackNumber: 0xD7,
+  trackUid: 0x73C5,
+  trackType: 0x83,
+  codecId: 0x86,
+  codecPrivate: 0x63A2,
+  codecDelay: 0x56AA,
+  seekPreRoll: 0x56BB,
+  audio: 0xE1,
+  samplingFrequency: 0xB5,
+  channels: 0x9F,
+  tags: 0x1254C367,
+  tag: 0x7373,
+  targets: 0x63C0,
+  simpleTag: 0x67C8,
+  tagName: 0x45A3,
+  tagString: 0x4487,
+  cluster: 0x1F43B675,
+  timecode: 0xE7,
+  simpleBlock: 0xA3
+};
+
+const TRACK_TYPE_AUDIO = 2;
+const KEYFRAME = 0x80;
+
+export interface OpusPacket {
+  data: Uint8Array;
+  timestamp: number; // in microseconds, from the start of the audio
+}
+
+export interface OpusStreamInfo {
+  numberOfChannels: number;
+  inputSampleRate: number;
+  duration: number; // in seconds
+  header?: Uint8Array; // the encoder's own OpusHead, when it gives one
+}
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+// IDs keep their length marker bits, so they're written as they are
+const idBytes = (id: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 0x100)) bytes.unshift(value & 0xFF);
+  return Uint8Array.from(bytes);
+};
+
+// Shortest variable-length size; all ones is reserved for "unknown"
+const sizeBytes = (size: number): Uint8Array => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value & 0xFF;
+    value = Math.floor(value / 0x100);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const element = (id: number, body: Uint8Array): Uint8Array => concat([idBytes(id), sizeBytes(body.length), body]);
+
+const master = (id: number, children: Uint8Array[]): Uint8Array => element(id, concat(children));
+
+const uintElement = (id: number, value: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let rest = value; bytes.length === 0 || rest > 0; rest = Math.floor(rest / 0x100)) bytes.unshift(rest & 0xFF);
+  return element(id, Uint8Array.from(bytes));
+};
+
+const floatElement = (id: number, value: number): Uint8Array => {
+  const body = new Uint8Array(8);
+  new DataView(body.buffer).setFloat64(0, value, false);
+  return element(id, body);
+};
+
+const stringElement = (id: number, text: string): Uint8Array => element(id, new TextEncoder().encode(text));
+
+// The Opus identification header Matroska carries as CodecPrivate. Mapping
+// family 0 covers mono and stereo.
+export const opusHead = (numberOfChannels: number, inputSampleRate: number, preSkip = DEFAULT_PRE_SKIP): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'));
+  view.setUint8(8, 1);
+  view.setUint8(9, numberOfChannels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true);
+  view.setUint8(18, 0);
+  return head;
+};
+
+const preSkipOf = (head: Uint8Array): number => new DataView(head.buffer, head.byteOffset, head.byteLength).getUint16(10, true);
+
+const simpleBlock = (packet: OpusPacket, clusterMs: number): Uint8Array => {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  header[0] = 0x81; // track 1
+  view.setInt16(1, Math.round(packet.timestamp / 1000) - clusterMs, false);
+  header[3] = KEYFRAME;
+  return element(ID.simpleBlock, concat([header, packet.data]));
+};
+
+const clusters = (packets: OpusPacket[]): Uint8Array[] => {
+  const result: Uint8Array[] = [];
+  for (let first = 0; first < packets.length;) {
+    const clusterMs = Math.round(packets[first].timestamp / 1000);
+    let last = first;
+    while (last < packets.length && Math.round(packets[last].timestamp / 1000) - clusterMs < CLUSTER_MS) last++;
+    result.push(master(ID.cluster, [
+      uintElement(ID.timecode, clusterMs),
+      ...packets.slice(first, last).map(packet => simpleBlock(packet, clusterMs))
+    ]));
+    first = last;
+  }
+  return result;
+};
+
+const tags = (code: string): Uint8Array =>
+  master(ID.tags, [
+    master(ID.tag, [
+      master(ID.targets, []),
+      master(ID.simpleTag, [stringElement(ID.tagName, FLAC_CODE_FIELD), stringElement(ID.tagString, code)])
+    ])
+  ]);
+
+export const encodeWebm = (packets: OpusPacket[], stream: OpusStreamInfo, metadata: WavMetadata = {}): Uint8Array => {
+  const head = stream.header ?? opusHead(stream.numberOfChannels, stream.inputSampleRate);
+
+  const header = master(ID.ebml, [
+    uintElement(ID.ebmlVersion, 1),
+    uintElement(ID.ebmlReadVersion, 1),
+    uintElement(ID.ebmlMaxIdLength, 4),
+    uintElement(ID.ebmlMaxSizeLength, 8),
+    stringElement(ID.docType, 'webm'),
+    uintElement(ID.docTypeVersion, 4),
+    uintElement(ID.docTypeReadVersion, 2)
+  ]);
+
+  const info = master(ID.info, [
+    uintElement(ID.timecodeScale, TIMECODE_SCALE_NS),
+    floatElement(ID.duration, stream.duration * 1000),
+    stringElement(ID.muxingApp, 'Audio Encode'),
+    stringElement(ID.writingApp, 'Audio Encode')
+  ]);
+
+  const tracks = master(ID.tracks, [
+    master(ID.trackEntry, [
+      uintElement(ID.trackNumber, 1),
+      uintElement(ID.trackUid, 1),
+      uintElement(ID.trackType, TRACK_TYPE_AUDIO),
+      stringElement(ID.codecId, 'A_OPUS'),
+      element(ID.codecPrivate, head),
+      uintElement(ID.codecDelay, Math.round((preSkipOf(head) * 1e9) / OPUS_SAMPLE_RATE)),
+      uintElement(ID.seekPreRoll, SEEK_PRE_ROLL_NS),
+      master(ID.audio, [
+        floatElement(ID.samplingFrequency, OPUS_SAMPLE_RATE),
+        uintElement(ID.channels, stream.numberOfChannels)
+      ])
+    ])
+  ]);
+
+  const body = [info, tracks, ...(metadata.code ? [tags(metadata.code)] : []), ...clusters(packets)];
+  return concat([header, master(ID.segment, body)]);
+};
+
+// Reads an element header at `offset`: its ID, the size of its body and where
+// the body starts. Null past the end of the buffer.
+const readElement = (bytes: Uint8Array, offset: number) => {
+  const vint = (position: number, keepMarker: boolean) => {
+    const first = bytes[position];
+    if (first === undefined || first === 0) return null;
+    const length = Math.clz32(first) - 23;
+    if (position + length > bytes.length) return null;
+    let value = keepMarker ? first : first & (0xFF >> length);
+    for (let i = 1; i < length; i++) value = value * 0x100 + bytes[position + i];
+    return { value, length };
+  };
+
+  const id = vint(offset, true);
+  if (!id) return null;
+  const size = vint(offset + id.length, false);
+  if (!size) return null;
+  return { id: id.value, size: size.value, body: offset + id.length + size.length };
+};
+
+export const isWebm = (buffer: ArrayBuffer): boolean =>
+  buffer.byteLength >= 4 && new DataView(buffer).getUint32(0, false) === ID.ebml;
+
+// The embedded code from the Tags element, or null. Only looks at the
+// elements before the first Cluster.
+export const readWebmCode = (buffer: ArrayBuffer): string | null => {
+  const bytes = new Uint8Array(buffer);
+  const header = readElement(bytes, 0);
+  if (header?.id !== ID.ebml) return null;
+  const segment = readElement(bytes, header.body + header.size);
+  if (segment?.id !== ID.segment) return null;
+
+  // Children of the element whose body runs [start, end)
+  const children = (start: number, end: number) => {
+    const found: { id: number; size: number; body: number }[] = [];
+    for (let offset = start; offset < Math.min(end, bytes.length);) {
+      const child = readElement(bytes, offset);
+      if (!child || child.id === ID.cluster) break;
+      found.push(child);
+      offset = child.body + child.size;
+    }
+    return found;
+  };
+  const decoder = new TextDecoder();
+  const text = (child: { size: number; body: number }) => decoder.decode(bytes.subarray(child.body, child.body + child.size));
+
+  for (const tagList of children(segment.body, segment.body + segment.size).filter(child => child.id === ID.tags)) {
+    for (const tag of children(tagList.body, tagList.body + tagList.size).filter(child => child.id === ID.tag)) {
+      for (const simple of children(tag.body, tag.body + tag.size).filter(child => child.id === ID.simpleTag)) {
+        const fields = children(simple.body, simple.body + simple.size);
+        const name = fields.find(field => field.id === ID.tagName);
+        const value = fields.find(field => field.id === ID.tagString);
+        if (name && value && text(name).toUpperCase() === FLAC_CODE_FIELD) return text(value);
+      }
+    }
+  }
+  return null;
+};
@@ -0,0 +1,267 @@
+import {
+  AUDIO_FILE_KINDS,
+  AUDIO_HEADER_BYTES,
+  isNativeAudio,
+  pcmFrameCount,
+  readAudioFileHeader,
+  readEmbeddedCode,
+  sniffAudioFile,
+  UnsupportedAudioError
+} from '../engine';
+import type {
+  AudioFileKind,
+  CodeEstimate,
+  EncodingSpec,
+  OutputFormat,
+  PcmAudio,
+  ProgressCallback,
+  RoundTripResult,
+  SegmentPiece,
+  Waveform,
+  WavMetadata
+} from '../engine';
+
+// WAV and AIFF files above this are streamed from disk instead of read into memory
+const STREAMING_THRESHOLD = 256 * 1024 * 1024;
+
+// Our encoding chunk sits right after "fmt " (STREAMINFO in FLAC, Tracks in
+// WebM), well inside the first 64KB
+const CODE_PROBE_BYTES = 64 * 1024;
+
+export type CodecDirection = 'encode' | 'decode';
+
+export interface CodecRequest {
+  direction: CodecDirection;
+  // WAV and AIFF bytes are parsed in the worker, and a Blob of either is streamed from disk
+  input: ArrayBuffer | PcmAudio | Blob;
+  spec: EncodingSpec;
+  key: string;
+  metadata: WavMetadata;
+  format: OutputFormat; // how the result is written
+  verify: boolean; // decode the encoded result again and compare it with the source
+}
+
+// What the visualizer draws: both sides of the job and where each original segment went
+export interface CodecVisual {
+  input: Waveform;
+  output: Waveform;
+  pieces: SegmentPiece[] | null; // null when there are too many segments to draw
+}
+
+export interface CodecResult {
+  bytes: ArrayBuffer | null; // the written file, null when streamed out in chunks
+  verification: RoundTripResult | null; // only for verified, in-memory encodes
+  visual: CodecVisual | null; // null when streamed
+}
+
+export type CodecInput = CodecRequest['input'];
+
+export type CodecCommand =
+  | { type: 'start'; request: CodecRequest }
+  | { type: 'estimate'; input: CodecInput }
+  | { type: 'ack' }; // the last chunk was written, send the next
+
+export type CodecResponse =
+  | { type: 'progress'; fraction: number }
+  | { type: 'chunk'; bytes: ArrayBuffer }
+  | ({ type: 'done' } & CodecResult)
+  | { type: 'estimated'; estimates: CodeEstimate[] }
+  | { type: 'error'; message: string };
+
+// Receives streamed output in order; the worker waits for each write
+export type ChunkWriter = (bytes: ArrayBuffer) => Promise<void>;
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+export interface WorkerJob<T> {
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+export type CodecJob = WorkerJob<CodecResult>;
+
+export const readFileCode = async (file: Blob): Promise<string | null> =>
+  readEmbeddedCode(await file.slice(0, CODE_PROBE_BYTES).arrayBuffer());
+
+const readFileHeader = (file: File): Promise<ArrayBuffer> => file.slice(0, AUDIO_HEADER_BYTES).arrayBuffer();
+
+// Whether the file is WAV or AIFF in an encoding we read ourselves
+export const isNativeAudioFile = async (file: File): Promise<boolean> => {
+  const header = await readFileHeader(file);
+  if (!isNativeAudio(sniffAudioFile(header))) return false;
+  try {
+    readAudioFileHeader(header, file.size);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const browserDecodeError = (kind: AudioFileKind): UnsupportedAudioError =>
+  new UnsupportedAudioError(kind === 'unknown'
+    ? 'This doesn\'t look like an audio file this browser can decode'
+    : `This browser can't decode this ${AUDIO_FILE_KINDS[kind].name} file. Convert it to WAV and try again.`);
+
+// Why the file can't be used, or null if it looks readable. WAV and AIFF are
+// checked from their header; other formats by asking the browser whether it
+// plays the type at all, since only decoding them says for certain.
+export const checkAudioFile = async (file: File): Promise<string | null> => {
+  const header = await readFileHeader(file);
+  const kind = sniffAudioFile(header);
+  if (isNativeAudio(kind)) {
+    try {
+      readAudioFileHeader(header, file.size);
+      return null;
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+  const { mimeType } = AUDIO_FILE_KINDS[kind];
+  if (mimeType && document.createElement('audio').canPlayType(mimeType) === '') {
+    return browserDecodeError(kind).message;
+  }
+  return null;
+};
+
+// Length in seconds, from the header for WAV and AIFF and from the browser's
+// metadata for anything else. Null when neither knows.
+export const readFileDuration = async (file: File): Promise<number | null> => {
+  const header = await readFileHeader(file);
+  if (isNativeAudio(sniffAudioFile(header))) {
+    try {
+      const format = readAudioFileHeader(header, file.size);
+      return pcmFrameCount(format) / format.sampleRate;
+    } catch {
+      return null;
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    return await new Promise<number | null>((resolve) => {
+      const audio = document.createElement('audio');
+      audio.preload = 'metadata';
+      audio.onloadedmetadata = () => resolve(Number.isFinite(audio.duration) ? audio.duration : null);
+      audio.onerror = () => resolve(null);
+      audio.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Copies the channels, since they get transferred to the worker
+export const audioBufferToPcm = (buffer: AudioBuffer): PcmAudio => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice())
+});
+
+// WAV and AIFF are parsed in the worker so the source sample rate and channel count
+// are kept, and large ones are passed as-is to be streamed from disk. Other formats go
+// through the browser decoder, which resamples to the device rate. Files that can't
+// be read either way throw UnsupportedAudioError, saying why.
+export const readCodecInput = async (
+  file: File,
+  decodeAudio: (bytes: ArrayBuffer) => Promise<AudioBuffer>
+): Promise<CodecInput> => {
+  const header = await readFileHeader(file);
+  const kind = sniffAudioFile(header);
+  if (isNativeAudio(kind)) {
+    readAudioFileHeader(header, file.size);
+    return file.size > STREAMING_THRESHOLD ? file : file.arrayBuffer();
+  }
+
+  const arrayBuffer = await file.arrayBuffer();
+  try {
+    return audioBufferToPcm(await decodeAudio(arrayBuffer));
+  } catch {
+    throw browserDecodeError(kind);
+  }
+};
+
+const transferables = (input: CodecInput): ArrayBuffer[] => {
+  if (input instanceof ArrayBuffer) return [input];
+  if (input instanceof Blob) return [];
+  return [...new Set(input.channels.map(channel => channel.buffer as ArrayBuffer))];
+};
+
+type FinalResponse = Extract<CodecResponse, { type: 'done' | 'estimated' }>;
+
+// Runs one command in a fresh worker. The input buffers move to the worker
+// rather than being copied, and cancelling terminates it, which frees
+// everything it holds. Streamed jobs need `writeChunk`.
+const runInWorker = (
+  command: CodecCommand,
+  input: CodecInput,
+  onProgress: ProgressCallback,
+  writeChunk?: ChunkWriter
+): WorkerJob<FinalResponse> => {
+  const worker = new Worker(new URL('./codec.worker.ts', import.meta.url), { type: 'module' });
+  let cancel = () => {};
+
+  const result = new Promise<FinalResponse>((resolve, reject) => {
+    const fail = (error: Error) => {
+      worker.terminate();
+      reject(error);
+    };
+
+    worker.onmessage = (event: MessageEvent<CodecResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.fraction);
+        return;
+      }
+      if (message.type === 'chunk') {
+        if (!writeChunk) {
+          fail(new Error('Streamed output needs a chunk writer'));
+          return;
+        }
+        writeChunk(message.bytes).then(() => worker.postMessage({ type: 'ack' } satisfies CodecCommand), fail);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+      } else {
+        resolve(message);
+      }
+    };
+
+    worker.onerror = (event) => fail(new Error(event.message || 'Worker failed'));
+    cancel = () => fail(new CancelledError());
+  });
+
+  worker.postMessage(command, transferables(input));
+  return { result, cancel };
+};
+
+export const startCodecJob = (
+  request: CodecRequest,
+  onProgress: ProgressCallback,
+  writeChunk?: ChunkWriter
+): CodecJob => {
+  const job = runInWorker({ type: 'start', request }, request.input, onProgress, writeChunk);
+  return {
+    result: job.result.then(message => ({
+      bytes: message.type === 'done' ? message.bytes : null,
+      verification: message.type === 'done' ? message.verification : null,
+      visual: message.type === 'done' ? message.visual : null
+    })),
+    cancel: job.cancel
+  };
+};
+
+// Ranks the split/oddEven codes the input was most likely encoded with
+export const startEstimateJob = (input: CodecInput, onProgress: ProgressCallback): WorkerJob<CodeEstimate[]> => {
+  const job = runInWorker({ type: 'estimate', input }, input, onProgress);
+  return {
+    result: job.result.then(message => (message.type === 'estimated' ? message.estimates : [])),
+    cancel: job.cancel
+  };
+};
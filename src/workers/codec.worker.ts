@@ -0,0 +1,143 @@
+import {
+  decode,
+  audioFileSource,
+  decodeAudioFile,
+  decodeSource,
+  decodeWav,
+  encode,
+  encodeAudioFile,
+  encodeSource,
+  estimateCode,
+  pcmLength,
+  segmentMap,
+  serializeSpec,
+  storedPcm,
+  STREAM_CHUNK_FRAMES,
+  verifyRoundTrip,
+  waveform,
+  writeAudioStream
+} from '../engine';
+import type { PcmAudio, ProgressCallback } from '../engine';
+import type { CodecCommand, CodecInput, CodecRequest, CodecResponse, CodecVisual } from './codec';
+
+const post = (message: CodecResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// Only posts whole-percent changes, the engine reports far more often
+const percentProgress = (): ProgressCallback => {
+  let reported = -1;
+  return (fraction) => {
+    const percent = Math.floor(fraction * 100);
+    if (percent > reported) {
+      reported = percent;
+      post({ type: 'progress', fraction: percent / 100 });
+    }
+  };
+};
+
+// Resolves the wait for the current chunk to be written
+let acknowledge: (() => void) | null = null;
+
+const writeChunk = (bytes: Uint8Array): Promise<void> => {
+  const written = new Promise<void>(resolve => {
+    acknowledge = resolve;
+  });
+  const buffer = bytes.buffer as ArrayBuffer;
+  post({ type: 'chunk', bytes: buffer }, [buffer]);
+  return written;
+};
+
+// Streams the file from disk and back out in chunks, so memory stays bounded
+const streamFile = async (request: CodecRequest, input: Blob, onProgress: ProgressCallback) => {
+  const { direction, spec, key, metadata, format } = request;
+  const source = await audioFileSource((start, end) => input.slice(start, end).arrayBuffer(), input.size);
+  const output = direction === 'encode' ? encodeSource(source, spec, { key }) : await decodeSource(source, spec, { key });
+  await writeAudioStream(output, writeChunk, metadata, format, onProgress);
+  post({ type: 'done', bytes: null, verification: null, visual: null });
+};
+
+// The map always runs from the original audio to the encoded audio, so on
+// decode the input is the encoded side
+const visualize = (request: CodecRequest, input: PcmAudio, output: PcmAudio): CodecVisual => {
+  const original = request.direction === 'encode' ? input : output;
+  return {
+    input: waveform(input),
+    output: waveform(output),
+    pieces: segmentMap(request.spec, pcmLength(original), original.sampleRate, original.channels.length, request.key)
+  };
+};
+
+const run = async (request: CodecRequest) => {
+  const { direction, input, spec, key, metadata, format } = request;
+
+  // Verifying decodes the result once more, which takes the second half of the
+  // progress bar. Streamed files are never held whole, so they can't be compared.
+  const verify = request.verify && direction === 'encode' && !(input instanceof Blob);
+  const phases = verify ? 2 : 1;
+
+  const report = percentProgress();
+  const progress = (phase: number) => (fraction: number) => report((phase + fraction) / phases);
+
+  if (input instanceof Blob) {
+    await streamFile(request, input, progress(0));
+    return;
+  }
+
+  const pcm = input instanceof ArrayBuffer ? decodeAudioFile(input) : input;
+  const result = direction === 'encode'
+    ? encode(pcm, spec, { key, onProgress: progress(0) })
+    : decode(pcm, spec, { key, onProgress: progress(0) });
+  const bytes = encodeAudioFile(result, metadata, format);
+
+  // WAV is read back from the written bytes; FLAC is lossless, so what it stores
+  // is the quantized result
+  const verification = verify
+    ? verifyRoundTrip(
+      pcm,
+      format.container === 'wav' ? decodeWav(bytes) : storedPcm(result, format),
+      serializeSpec(spec),
+      { key, onProgress: progress(1) },
+      format
+    )
+    : null;
+
+  post({ type: 'done', bytes, verification, visual: visualize(request, pcm, result) }, [bytes]);
+};
+
+// Estimation only looks at the mono mix, so a large file is read into that a
+// chunk at a time rather than whole
+const readMono = async (input: Blob): Promise<PcmAudio> => {
+  const source = await audioFileSource((start, end) => input.slice(start, end).arrayBuffer(), input.size);
+  const mono = new Float32Array(source.length);
+  for (let start = 0; start < source.length; start += STREAM_CHUNK_FRAMES) {
+    const channels = await source.read(start, Math.min(STREAM_CHUNK_FRAMES, source.length - start));
+    for (const channel of channels) {
+      for (let i = 0; i < channel.length; i++) mono[start + i] += channel[i] / channels.length;
+    }
+  }
+  return { sampleRate: source.sampleRate, channels: [mono] };
+};
+
+const estimate = async (input: CodecInput) => {
+  let pcm: PcmAudio;
+  if (input instanceof Blob) pcm = await readMono(input);
+  else if (input instanceof ArrayBuffer) pcm = decodeAudioFile(input);
+  else pcm = input;
+
+  const estimates = estimateCode(pcm, { onProgress: percentProgress() });
+  post({ type: 'estimated', estimates });
+};
+
+self.onmessage = (event: MessageEvent<CodecCommand>) => {
+  const command = event.data;
+  if (command.type === 'ack') {
+    acknowledge?.();
+    return;
+  }
+
+  const job = command.type === 'estimate' ? estimate(command.input) : run(command.request);
+  job.catch((error: Error) => {
+    post({ type: 'error', message: error.message });
+  });
+};
@@ -0,0 +1,113 @@
+import { encodeWebm, OPUS_SAMPLE_RATE } from '../engine';
+import type { OpusPacket, ProgressCallback, WavMetadata } from '../engine';
+
+// WebM/Opus export through WebCodecs. Opus only runs at 48 kHz, so the audio is
+// decoded and resampled to that by the browser first, then fed to an
+// AudioEncoder a second at a time and muxed by the engine's WebM writer.
+
+export const OPUS_BITRATES = [64000, 96000, 128000, 192000];
+
+export const DEFAULT_OPUS_BITRATE = 128000;
+
+const FEED_FRAMES = OPUS_SAMPLE_RATE;
+
+// Chunks queued in the encoder before waiting for it to catch up
+const MAX_QUEUE = 4;
+
+export interface OpusExportOptions {
+  bitrate?: number; // in bits per second
+  metadata?: WavMetadata;
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+export const canExportOpus = (): boolean => typeof AudioEncoder !== 'undefined';
+
+// Encodes a WAV or FLAC file to a WebM/Opus Blob. Mapping family 0 only covers
+// mono and stereo, so other channel counts are refused. Aborting the signal
+// rejects with an AbortError.
+export const exportWebmOpus = async (file: Blob, options: OpusExportOptions = {}): Promise<Blob> => {
+  const { bitrate = DEFAULT_OPUS_BITRATE, metadata = {}, onProgress, signal } = options;
+  if (!canExportOpus()) {
+    throw new Error('This browser can\'t encode Opus: WebCodecs AudioEncoder isn\'t available');
+  }
+
+  // Decoding in a 48 kHz context resamples on the way
+  const context = new OfflineAudioContext(1, 1, OPUS_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const { numberOfChannels, length } = buffer;
+  if (numberOfChannels > 2) {
+    throw new Error(`WebM/Opus export is mono or stereo only, this audio has ${numberOfChannels} channels`);
+  }
+
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels, bitrate };
+  const { supported } = await AudioEncoder.isConfigSupported(config);
+  if (!supported) {
+    throw new Error(`This browser can't encode ${numberOfChannels}-channel Opus at ${bitrate / 1000} kbps`);
+  }
+
+  const packets: OpusPacket[] = [];
+  let header: Uint8Array | undefined;
+  let failure: Error | null = null;
+  // Resumes feeding once the encoder has taken some frames, or has failed
+  let wake = () => {};
+  const encoder = new AudioEncoder({
+    output: (chunk, chunkMetadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, timestamp: chunk.timestamp });
+      const description = chunkMetadata?.decoderConfig?.description;
+      if (description && !header) {
+        header = ArrayBuffer.isView(description)
+          ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+          : new Uint8Array(description).slice();
+      }
+      onProgress?.(Math.min(1, chunk.timestamp / 1e6 / buffer.duration));
+    },
+    error: (error) => {
+      failure = error;
+      wake();
+    }
+  });
+  encoder.ondequeue = () => wake();
+
+  try {
+    encoder.configure(config);
+    const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+    for (let start = 0; start < length && !failure; start += FEED_FRAMES) {
+      signal?.throwIfAborted();
+      const frames = Math.min(FEED_FRAMES, length - start);
+      // f32-planar: each channel's frames one after the other
+      const planar = new Float32Array(frames * numberOfChannels);
+      channels.forEach((data, channel) => planar.set(data.subarray(start, start + frames), channel * frames));
+
+      const data = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: frames,
+        numberOfChannels,
+        timestamp: Math.round((start * 1e6) / OPUS_SAMPLE_RATE),
+        data: planar
+      });
+      encoder.encode(data);
+      data.close();
+      if (encoder.encodeQueueSize > MAX_QUEUE) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+      }
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (failure) throw failure;
+
+  const bytes = encodeWebm(packets, {
+    numberOfChannels,
+    inputSampleRate: buffer.sampleRate,
+    duration: buffer.duration,
+    header
+  }, metadata);
+  return new Blob([bytes], { type: 'audio/webm' });
+};
@@ -0,0 +1,157 @@
+import { audioFileSource, decodeSource, pcmSource } from '../engine';
+import type { AudioSource, EncodingSpec } from '../engine';
+import { audioBufferToPcm, isNativeAudioFile } from './codec';
+import workletUrl from './playback.worklet.ts?worker&url';
+
+// Frames decoded per message to the worklet, and how far ahead of the
+// playhead to keep decoded
+const BLOCK_FRAMES = 8192;
+const READ_AHEAD_SECONDS = 2;
+
+// Messages carry a generation, bumped on every seek, so stale blocks and
+// reports from before it are ignored
+export type PlaybackCommand =
+  | { type: 'seek'; generation: number; position: number }
+  | { type: 'block'; generation: number; channels: Float32Array[] };
+
+export type PlaybackReport =
+  | { type: 'position'; generation: number; position: number }
+  | { type: 'ended'; generation: number };
+
+export interface DecodePlayerEvents {
+  onPosition: (seconds: number) => void;
+  onEnded: () => void;
+  onError: (error: Error) => void;
+}
+
+export interface DecodePlayer {
+  duration: number; // in seconds of the original
+  play: () => Promise<void>;
+  pause: () => Promise<void>;
+  seek: (seconds: number) => void;
+  setVolume: (volume: number) => void;
+  close: () => Promise<void>;
+}
+
+// WAV and AIFF files are read from disk as playback reaches them, so long files
+// start right away. Other formats have to go through the browser decoder first.
+const openEncodedSource = async (file: File): Promise<{ context: AudioContext; source: AudioSource }> => {
+  if (await isNativeAudioFile(file)) {
+    const source = await audioFileSource((start, end) => file.slice(start, end).arrayBuffer(), file.size);
+    return { context: new AudioContext({ sampleRate: source.sampleRate }), source };
+  }
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    return { context, source: pcmSource(audioBufferToPcm(buffer)) };
+  } catch (error) {
+    await context.close();
+    throw error;
+  }
+};
+
+// Decodes an encoded file while it plays. The decode pipeline reads any range
+// of the original on request, so the player only ever decodes the next couple
+// of seconds after the playhead, and seeking just moves where it reads from.
+// Opens paused.
+export const openDecodePlayer = async (
+  file: File,
+  spec: EncodingSpec,
+  key: string,
+  events: DecodePlayerEvents
+): Promise<DecodePlayer> => {
+  const { context, source: encoded } = await openEncodedSource(file);
+
+  let node: AudioWorkletNode;
+  let source: AudioSource;
+  try {
+    source = await decodeSource(encoded, spec, { key });
+    await context.audioWorklet.addModule(workletUrl);
+    node = new AudioWorkletNode(context, 'decode-playback', {
+      numberOfInputs: 0,
+      outputChannelCount: [source.numberOfChannels],
+      processorOptions: { length: source.length }
+    });
+    await context.suspend();
+  } catch (error) {
+    await context.close();
+    throw error;
+  }
+
+  const gain = context.createGain();
+  node.connect(gain).connect(context.destination);
+
+  const aheadFrames = READ_AHEAD_SECONDS * source.sampleRate;
+  let generation = 0;
+  let played = 0; // last reported playhead
+  let nextRead = 0;
+  let reading = false;
+  let closed = false;
+
+  const post = (command: PlaybackCommand) => node.port.postMessage(command);
+
+  // One read at a time; a seek mid-read drops the block and carries on from the new position
+  const fill = async () => {
+    if (reading) return;
+    reading = true;
+    try {
+      while (!closed && nextRead < source.length && nextRead - played < aheadFrames) {
+        const readGeneration = generation;
+        const start = nextRead;
+        const channels = await source.read(start, Math.min(BLOCK_FRAMES, source.length - start));
+        if (readGeneration !== generation || closed) continue;
+        nextRead = start + channels[0].length;
+        post({ type: 'block', generation, channels });
+      }
+    } catch (error) {
+      events.onError(error as Error);
+    } finally {
+      reading = false;
+    }
+  };
+
+  node.port.onmessage = (event: MessageEvent<PlaybackReport>) => {
+    const report = event.data;
+    if (report.generation !== generation) return;
+    if (report.type === 'ended') {
+      played = source.length;
+      context.suspend();
+      events.onPosition(source.length / source.sampleRate);
+      events.onEnded();
+      return;
+    }
+    played = report.position;
+    events.onPosition(played / source.sampleRate);
+    fill();
+  };
+
+  const seek = (seconds: number) => {
+    const position = Math.max(0, Math.min(source.length, Math.round(seconds * source.sampleRate)));
+    generation++;
+    played = position;
+    nextRead = position;
+    post({ type: 'seek', generation, position });
+    events.onPosition(position / source.sampleRate);
+    fill();
+  };
+
+  fill();
+
+  return {
+    duration: source.length / source.sampleRate,
+    play: async () => {
+      if (played >= source.length) seek(0);
+      await context.resume();
+    },
+    pause: () => context.suspend(),
+    seek,
+    setVolume: (volume) => {
+      gain.gain.value = volume;
+    },
+    close: async () => {
+      closed = true;
+      node.disconnect();
+      await context.close();
+    }
+  };
+};
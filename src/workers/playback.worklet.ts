@@ -0,0 +1,83 @@
+import type { PlaybackCommand, PlaybackReport } from './playback';
+
+// The audio worklet scope isn't in the DOM typings
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+// How often the playhead is reported, in frames
+const REPORT_FRAMES = 2048;
+
+interface Block {
+  channels: Float32Array[];
+  offset: number; // frames already played
+}
+
+// Plays decoded blocks in the order they arrive and reports where it is. The
+// main thread reads ahead of the playhead; if it falls behind, this plays
+// silence and holds the playhead until the next block comes.
+class DecodePlaybackProcessor extends AudioWorkletProcessor {
+  private readonly length: number;
+  private blocks: Block[] = [];
+  private generation = 0; // bumped on every seek, so blocks read for the old position are dropped
+  private position = 0; // next frame to play, in original time
+  private unreported = 0;
+  private ended = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super();
+    this.length = options.processorOptions.length;
+    this.port.onmessage = (event: MessageEvent<PlaybackCommand>) => {
+      const command = event.data;
+      if (command.type === 'seek') {
+        this.generation = command.generation;
+        this.blocks = [];
+        this.position = command.position;
+        this.ended = false;
+      } else if (command.generation === this.generation) {
+        this.blocks.push({ channels: command.channels, offset: 0 });
+      }
+    };
+  }
+
+  private report(message: PlaybackReport) {
+    this.port.postMessage(message);
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const output = outputs[0];
+    const frames = output[0].length;
+
+    for (let written = 0; written < frames && this.blocks.length > 0;) {
+      const block = this.blocks[0];
+      const blockLength = block.channels[0].length;
+      const count = Math.min(frames - written, blockLength - block.offset);
+      output.forEach((channel, index) => {
+        const samples = block.channels[index];
+        if (samples) channel.set(samples.subarray(block.offset, block.offset + count), written);
+      });
+
+      written += count;
+      block.offset += count;
+      this.position += count;
+      this.unreported += count;
+      if (block.offset === blockLength) this.blocks.shift();
+    }
+
+    if (this.unreported >= REPORT_FRAMES) {
+      this.unreported = 0;
+      this.report({ type: 'position', generation: this.generation, position: this.position });
+    }
+    if (!this.ended && this.position >= this.length) {
+      this.ended = true;
+      this.report({ type: 'ended', generation: this.generation });
+    }
+    return true;
+  }
+}
+
+registerProcessor('decode-playback', DecodePlaybackProcessor);
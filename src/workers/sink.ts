@@ -0,0 +1,62 @@
+import { DEFAULT_OUTPUT_FORMAT, outputExtension, outputMimeType } from '../engine';
+import type { OutputFormat } from '../engine';
+
+// Where streamed output goes: straight to a file where the File System Access
+// API is available, otherwise into a Blob the browser can keep on disk
+
+export interface OutputSink {
+  write: (bytes: ArrayBuffer) => Promise<void>;
+  close: () => Promise<Blob | null>; // null when the output went to a file
+  abort: () => Promise<void>;
+}
+
+// Chromium only, and not in the DOM typings yet
+interface SaveFilePickerWindow {
+  showSaveFilePicker?: (options: {
+    suggestedName?: string;
+    types?: { description: string; accept: Record<string, string[]> }[];
+  }) => Promise<FileSystemFileHandle>;
+}
+
+// Each chunk becomes its own Blob right away, so the browser can page it out
+// instead of keeping every ArrayBuffer alive until the end
+export const blobSink = (format: OutputFormat = DEFAULT_OUTPUT_FORMAT): OutputSink => {
+  let parts: Blob[] = [];
+  return {
+    write: async (bytes) => {
+      parts.push(new Blob([bytes]));
+    },
+    close: async () => new Blob(parts, { type: outputMimeType(format) }),
+    abort: async () => {
+      parts = [];
+    }
+  };
+};
+
+const fileSink = (writable: FileSystemWritableFileStream): OutputSink => ({
+  write: (bytes) => writable.write(bytes),
+  close: async () => {
+    await writable.close();
+    return null;
+  },
+  abort: () => writable.abort()
+});
+
+// Asks where to save when the browser can write files directly. Throws
+// an AbortError if the user dismisses the picker.
+export const openOutputSink = async (
+  suggestedName: string,
+  format: OutputFormat = DEFAULT_OUTPUT_FORMAT
+): Promise<OutputSink> => {
+  const { showSaveFilePicker } = window as SaveFilePickerWindow;
+  if (!showSaveFilePicker) return blobSink(format);
+
+  const handle = await showSaveFilePicker.call(window, {
+    suggestedName,
+    types: [{
+      description: `${format.container.toUpperCase()} audio`,
+      accept: { [outputMimeType(format)]: [outputExtension(format)] }
+    }]
+  });
+  return fileSink(await handle.createWritable());
+};
@@ -0,0 +1,117 @@
+// Minimal zip writer. Entries are stored uncompressed, since scrambled audio
+// barely compresses, and the archive is assembled as a Blob so large outputs
+// never need to sit in one buffer.
+
+export interface ZipEntry {
+  name: string;
+  data: Blob;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_RECORD_SIZE = 22;
+const UTF8_FLAG = 0x0800;
+const VERSION = 20;
+
+// CRCs are computed a slice at a time to keep memory flat
+const CRC_SLICE_BYTES = 4 * 1024 * 1024;
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+const crc32 = async (data: Blob): Promise<number> => {
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < data.size; offset += CRC_SLICE_BYTES) {
+    const bytes = new Uint8Array(await data.slice(offset, offset + CRC_SLICE_BYTES).arrayBuffer());
+    for (let i = 0; i < bytes.length; i++) {
+      crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date fields, in local time as zip tools expect
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+interface EntryRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+// The fields shared by local and central headers, from "version needed" on
+const writeCommonFields = (view: DataView, at: number, record: EntryRecord, time: number, date: number) => {
+  view.setUint16(at, VERSION, true);
+  view.setUint16(at + 2, UTF8_FLAG, true);
+  view.setUint16(at + 4, 0, true); // stored
+  view.setUint16(at + 6, time, true);
+  view.setUint16(at + 8, date, true);
+  view.setUint32(at + 10, record.crc, true);
+  view.setUint32(at + 14, record.size, true);
+  view.setUint32(at + 18, record.size, true);
+  view.setUint16(at + 22, record.name.length, true);
+  view.setUint16(at + 24, 0, true); // extra field length
+};
+
+export const createZip = async (entries: ZipEntry[], modified = new Date()): Promise<Blob> => {
+  if (entries.length > 0xffff) {
+    throw new Error('Too many files for one zip');
+  }
+  const { time, date } = dosDateTime(modified);
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const records: EntryRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const record = { name: encoder.encode(entry.name), crc: await crc32(entry.data), size: entry.data.size, offset };
+    const header = new Uint8Array(LOCAL_HEADER_SIZE + record.name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    writeCommonFields(view, 4, record, time, date);
+    header.set(record.name, LOCAL_HEADER_SIZE);
+
+    parts.push(header, entry.data);
+    records.push(record);
+    offset += header.length + record.size;
+  }
+
+  const centralOffset = offset;
+  for (const record of records) {
+    const header = new Uint8Array(CENTRAL_HEADER_SIZE + record.name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x02014b50, true);
+    view.setUint16(4, VERSION, true); // made by
+    writeCommonFields(view, 6, record, time, date);
+    // Comment length, disk number and attributes stay zero
+    view.setUint32(42, record.offset, true);
+    header.set(record.name, CENTRAL_HEADER_SIZE);
+
+    parts.push(header);
+    offset += header.length;
+  }
+
+  if (offset > 0xffffffff) {
+    throw new Error('Output exceeds the 4 GB zip size limit');
+  }
+
+  const end = new Uint8Array(END_RECORD_SIZE);
+  const view = new DataView(end.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(8, records.length, true);
+  view.setUint16(10, records.length, true);
+  view.setUint32(12, offset - centralOffset, true);
+  view.setUint32(16, centralOffset, true);
+  parts.push(end);
+
+  return new Blob(parts, { type: 'application/zip' });
+};
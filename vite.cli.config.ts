@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Bundles the Node CLI: `npm run build:cli`, then `node dist-cli/audio-encode.js`
+export default defineConfig({
+  build: {
+    ssr: 'cli/audio-encode.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'audio-encode.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})